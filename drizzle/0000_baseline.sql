@@ -0,0 +1,14 @@
+CREATE TABLE "entries" (
+	"entry_id" text PRIMARY KEY NOT NULL,
+	"headword_en" text NOT NULL,
+	"headword_normalized" text NOT NULL,
+	"pronunciation" text,
+	"pos" text,
+	"translation_fa" text NOT NULL,
+	"definition_en" text,
+	"raw_ocr_snippet" text NOT NULL,
+	"source_image" jsonb NOT NULL,
+	"is_continuation" boolean DEFAULT false NOT NULL,
+	"needs_review" boolean DEFAULT false NOT NULL,
+	"confidence" real
+);
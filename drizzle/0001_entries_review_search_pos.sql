@@ -0,0 +1,15 @@
+-- Nothing stored entries before this migration (no writer in src/), so the new
+-- NOT NULL columns are added without a backfill and pos is cast as-is: run it on
+-- an empty table and re-load the rows from a parse run.
+CREATE TYPE "public"."pos_provisional" AS ENUM('n', 'v', 'vt', 'vi', 'adj', 'adv', 'prep', 'conj', 'pron', 'interj', 'phr', 'abbr');--> statement-breakpoint
+ALTER TABLE "entries" ALTER COLUMN "pos" SET DATA TYPE "public"."pos_provisional"[] USING "pos"::"public"."pos_provisional"[];--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "sort_key" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "translation_fa_normalized" text NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "cross_refs" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "runover_images" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "review_reasons" jsonb DEFAULT '[]'::jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "min_confidence" real;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "provenance" jsonb NOT NULL;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "disagreement" jsonb;--> statement-breakpoint
+ALTER TABLE "entries" ADD COLUMN "vision_reread" jsonb;--> statement-breakpoint
+CREATE INDEX "entries_sort_key_idx" ON "entries" USING btree ("sort_key" text_pattern_ops);
\ No newline at end of file
@@ -0,0 +1,33 @@
+// Corrector response cache maintenance (no LLM).
+// Usage: node scripts/cache.mjs stats [dir]
+//        node scripts/cache.mjs invalidate [--model <id>] [--prompt <version>] [dir]
+import { summarizeCache, invalidateCache, DEFAULT_CACHE_DIR } from "../dist/index.js";
+
+const [cmd, ...rest] = process.argv.slice(2);
+const usage =
+  "usage: node scripts/cache.mjs stats [dir]\n" +
+  "       node scripts/cache.mjs invalidate [--model <id>] [--prompt <version>] [dir]";
+
+const filter = {};
+let dir = DEFAULT_CACHE_DIR;
+for (let i = 0; i < rest.length; i++) {
+  if (rest[i] === "--model") filter.model = rest[++i];
+  else if (rest[i] === "--prompt") filter.promptVersion = rest[++i];
+  else dir = rest[i];
+}
+
+if (cmd === "stats") {
+  const s = await summarizeCache(dir);
+  console.log(`${dir}: ${s.entries} cached replies`);
+  for (const [m, n] of Object.entries(s.byModel)) console.log(`  model  ${m.padEnd(30)} ${n}`);
+  for (const [p, n] of Object.entries(s.byPromptVersion)) console.log(`  prompt ${p.padEnd(30)} ${n}`);
+} else if (cmd === "invalidate") {
+  if (filter.model === undefined && filter.promptVersion === undefined) {
+    console.error("refusing to clear the whole cache without --model or --prompt\n" + usage);
+    process.exit(1);
+  }
+  console.log(`removed ${await invalidateCache(filter, dir)} cached replies from ${dir}`);
+} else {
+  console.error(usage);
+  process.exit(1);
+}
@@ -0,0 +1,26 @@
+// Record corrector cassettes for one page (LIVE model call -- needs the active profile's key,
+// e.g. LLM_FRONTIER_API_KEY; LLM_PROFILE=rules records offline).
+// Usage: node scripts/record.mjs <vision.json> <pageNumber> [cassetteDir]
+// Writes <cassetteDir>/<NN>-<column>.json per column, <NN>.vision.json (the input,
+// so the pinned page is self-contained) and <NN>.entries.json: the parsed Entries
+// (provenance stripped) that tests/test.ts I5 pins replay against.
+import { readFileSync, writeFileSync } from "node:fs";
+import { join } from "node:path";
+import { createCorrector, RecordingCorrector, parsePage } from "../dist/index.js";
+
+const [file, pageArg, dir = "tests/cassettes"] = process.argv.slice(2);
+const page = Number(pageArg);
+if (!file || !Number.isInteger(page)) {
+  console.error("usage: node scripts/record.mjs <vision.json> <pageNumber> [cassetteDir]");
+  process.exit(1);
+}
+
+const text = readFileSync(file, "utf8");
+const raw = JSON.parse(text);
+const nn = String(page).padStart(2, "0");
+writeFileSync(join(dir, `${nn}.vision.json`), text);
+const entries = await parsePage(raw, page, new RecordingCorrector(createCorrector(), dir));
+const pinned = entries.map(({ provenance: _p, ...e }) => e);
+const out = join(dir, `${nn}.entries.json`);
+writeFileSync(out, `${JSON.stringify(pinned, null, 2)}\n`);
+console.log(`page ${page}: ${entries.length} entries, ${entries.filter((e) => e.needs_review).length} needs_review -> ${out}`);
@@ -1,27 +1,83 @@
 // Drizzle table = Tier-1 structural validation source (docs 9). drizzle-zod
 // generates the Tier-1 Zod schema from THIS definition so persistence and
 // validation cannot drift. Tier-2 domain checks live in ../validation/refinements.
-import { pgTable, text, boolean, real, jsonb } from "drizzle-orm/pg-core";
+import { index, pgEnum, pgTable, text, boolean, real, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema, createSelectSchema } from "drizzle-zod";
-import type { SourceImage } from "../types.js";
+import type { CrossRef, Entry, Provenance, ReviewReason, SourceImage } from "../types.js";
+import type { Disagreement } from "../llm/consensus.js";
+import type { VisionReread } from "../llm/vision.js";
+import { POS_VALUES } from "../validation/pos.js";
+
+// values come from the provisional POS key (validation/pos-key.provisional.json);
+// the type is named for it so the transcribed key lands as a new type, and any
+// key change needs a migration (npm run db:generate)
+export const posProvisionalEnum = pgEnum("pos_provisional", POS_VALUES);
 
 export const entries = pgTable("entries", {
   entryId: text("entry_id").primaryKey(),
   headwordEn: text("headword_en").notNull(),
   headwordNormalized: text("headword_normalized").notNull(),
+  sortKey: text("sort_key").notNull(),
   pronunciation: text("pronunciation"),
-  pos: text("pos"),
+  // canonical codes in printed order; several for a compound tag ("n. & adj.")
+  pos: posProvisionalEnum("pos").array(),
   translationFa: text("translation_fa").notNull(),
+  translationFaNormalized: text("translation_fa_normalized").notNull(),
   definitionEn: text("definition_en"),
+  // <...> spans naming another headword, with the entry each resolved to
+  crossRefs: jsonb("cross_refs").$type<CrossRef[]>().notNull().default([]),
   rawOcrSnippet: text("raw_ocr_snippet").notNull(),
+  // {page_number, column label, column_index (0-based, any column count), bbox}
   sourceImage: jsonb("source_image").$type<SourceImage>().notNull(),
   isContinuation: boolean("is_continuation").notNull().default(false),
+  // regions of continuations stitched onto this entry (parser/stitch.ts)
+  runoverImages: jsonb("runover_images").$type<SourceImage[]>().notNull().default([]),
   needsReview: boolean("needs_review").notNull().default(false),
+  // why needs_review is set: typed codes with details (types.ts ReviewReason)
+  reviewReasons: jsonb("review_reasons").$type<ReviewReason[]>().notNull().default([]),
   confidence: real("confidence"),
+  minConfidence: real("min_confidence"),
+  // prompt/profile/model/run that produced the row -- select re-run candidates by it
+  provenance: jsonb("provenance").$type<Provenance>().notNull(),
+  // consensus mode only: per-model candidates where the models disagreed
+  disagreement: jsonb("disagreement").$type<Disagreement>(),
+  // vision pass only: per-line image re-reads, stored apart from the text correction
+  visionReread: jsonb("vision_reread").$type<VisionReread>(),
   // Layer 2 (optional): add an `embedding` vector column here for pgvector when
   // the semantic/RAG layer is built (docs 8). Not created now.
-});
+}, (t) => [
+  // text_pattern_ops: LIKE 'prefix%' uses the index whatever the DB collation
+  index("entries_sort_key_idx").on(t.sortKey.op("text_pattern_ops")),
+]);
 
 // Tier-1 structural schemas, generated (drift-proof).
 export const insertEntrySchema = createInsertSchema(entries);
 export const selectEntrySchema = createSelectSchema(entries);
+
+/** An Entry as an `entries` row (snake_case fields -> the table's camelCase keys).
+ *  Tier-1 validation parses THIS, not the Entry itself. */
+export function entryToRow(e: Entry): typeof entries.$inferInsert {
+  return {
+    entryId: e.entry_id,
+    headwordEn: e.headword_en,
+    headwordNormalized: e.headword_normalized,
+    sortKey: e.sort_key,
+    pronunciation: e.pronunciation,
+    pos: e.pos,
+    translationFa: e.translation_fa,
+    translationFaNormalized: e.translation_fa_normalized,
+    definitionEn: e.definition_en,
+    crossRefs: e.cross_refs,
+    rawOcrSnippet: e.raw_ocr_snippet,
+    sourceImage: e.source_image,
+    isContinuation: e.is_continuation,
+    runoverImages: e.runover_images,
+    needsReview: e.needs_review,
+    reviewReasons: e.review_reasons,
+    confidence: e.confidence,
+    minConfidence: e.min_confidence,
+    provenance: e.provenance,
+    disagreement: e.disagreement,
+    visionReread: e.vision_reread,
+  };
+}
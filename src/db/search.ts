@@ -0,0 +1,35 @@
+// Headword lookup. Prefix search runs on sort_key (collation.ts), so a query
+// typed with or without the book's spaces and punctuation -- "ab initio",
+// "abinitio", "Ab-initio" -- finds the same rows, in dictionary order, through
+// the entries_sort_key_idx index. Each row comes back with its definition
+// rendered, resolved cross-references written as links (validation/cross-refs.ts).
+import { asc, like } from "drizzle-orm";
+import type { createDb } from "./client.js";
+import { entries } from "./schema.js";
+import { sortKey } from "../collation.js";
+import { type CrossRefLink, markdownCrossRef, renderCrossRefs } from "../validation/cross-refs.js";
+
+/** LIKE pattern for headwords filed under `prefix` (LIKE wildcards escaped). */
+export function prefixPattern(prefix: string): string {
+  return `${sortKey(prefix).replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+/** Entries whose headword starts with `prefix` in dictionary order;
+ *  definitionLinked is definitionEn with its cross-refs written by `link`. */
+export async function searchByPrefix(
+  db: ReturnType<typeof createDb>,
+  prefix: string,
+  limit = 50,
+  link: CrossRefLink = markdownCrossRef,
+) {
+  const rows = await db
+    .select()
+    .from(entries)
+    .where(like(entries.sortKey, prefixPattern(prefix)))
+    .orderBy(asc(entries.sortKey))
+    .limit(limit);
+  return rows.map((r) => ({
+    ...r,
+    definitionLinked: r.definitionEn === null ? null : renderCrossRefs(r.definitionEn, r.crossRefs, link),
+  }));
+}
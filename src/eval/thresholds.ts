@@ -1,2 +1,8 @@
 // Phase-2 quality thresholds. T5 will ratify these values against answer-key data.
 export const LOW_CONFIDENCE_WORD = 0.85;
+// Per symbol (character): a single misread Farsi dot. Lower than the word bar --
+// symbol confidences run noisier than word ones.
+export const LOW_CONFIDENCE_SYMBOL = 0.6;
+// Two entries' regions in one column may touch (a line box shared at the seam);
+// more overlap than this share of the smaller region means a segmentation error.
+export const REGION_OVERLAP_SHARE = 0.1;
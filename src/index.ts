@@ -1,11 +1,43 @@
 // Public surface. Nothing here connects to a DB or an LLM on import.
 export * from "./types.js";
 export * from "./script.js";
+export * from "./collation.js";
+export * from "./parser/bidi.js";
 export * from "./parser/columns.js";
+export * from "./parser/geometry.js";
+export * from "./parser/layout.js";
 export * from "./parser/lines.js";
+export * from "./parser/noise.js";
 export * from "./parser/parser.js";
+export * from "./parser/stitch.js";
+export * from "./ocr/input.js";
+export * from "./ocr/vision-json.js";
+export * from "./ocr/xml-ocr.js";
+export * from "./ocr/png.js";
 export * from "./llm/corrector.js";
+export * from "./llm/chat.js";
+export * from "./llm/http-corrector.js";
+export * from "./llm/rule-corrector.js";
+export * from "./llm/prompts.js";
+export * from "./llm/schema.js";
+export * from "./llm/repair.js";
+export * from "./llm/cache.js";
+export * from "./llm/cassette.js";
+export * from "./llm/consensus.js";
+export * from "./llm/chunking.js";
+export * from "./llm/usage.js";
+export * from "./llm/vision.js";
 export * from "./llm/config.js";
+export * from "./db/search.js";
 export * as validation from "./validation/refinements.js";
-export { normalizeFa } from "./validation/normalize.js";
-export { checkAlphabeticalContinuity } from "./validation/cross-record.js";
+export { normalizeFa, normalizeFaSearch } from "./validation/normalize.js";
+export {
+  RECORD_REVIEW_CODES,
+  countReviewReasons,
+  flagForReview,
+  reviewEntry,
+  validateEntry,
+} from "./validation/entry.js";
+export * from "./validation/cross-record.js";
+export * from "./validation/cross-refs.js";
+export * from "./validation/pos.js";
@@ -0,0 +1,162 @@
+// Content-addressed on-disk cache around any Corrector. Re-running the pipeline over
+// unchanged pages must not re-pay for (or re-roll) every LLM call: the key is a hash
+// of the transcript, the prompt version and the model, so changing any of them is a
+// miss and everything else is a free, deterministic replay of the stored reply.
+// Replies are stored RAW (pre-gate): the reply gate + repair loop run on top, so a
+// cached bad reply is still caught and re-prompted (and that re-prompt is cached too).
+import { createHash } from "node:crypto";
+import { mkdir, readdir, readFile, rename, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ColumnTranscript } from "../parser/lines.js";
+import type { Corrector, CorrectorInfo, CorrectedEntry, RepairFeedback } from "./corrector.js";
+
+/** Default cache location (gitignored). Override per run with CachingCorrector's dir. */
+export const DEFAULT_CACHE_DIR = ".cache/corrector";
+
+export interface CacheOptions {
+  dir?: string;
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+/** One file per key. Metadata is stored alongside the reply so invalidation can
+ *  select by model / prompt without re-deriving hashes. */
+export interface CacheRecord {
+  key: string;
+  model: string;
+  prompt_version: string;
+  page_number: number;
+  column: string;
+  created_at: string;
+  reply: unknown[];
+}
+
+export function cacheKey(
+  transcript: ColumnTranscript,
+  model: string,
+  promptVersion: string,
+  feedback?: RepairFeedback,
+): string {
+  return createHash("sha256")
+    .update(JSON.stringify({ transcript, model, promptVersion, feedback: feedback ?? null }))
+    .digest("hex");
+}
+
+/** Model and prompt version come from the wrapped corrector's info, so the key can't
+ *  drift from what actually answered. */
+export class CachingCorrector implements Corrector {
+  readonly stats: CacheStats = { hits: 0, misses: 0 };
+  private readonly dir: string;
+
+  constructor(
+    private readonly inner: Corrector,
+    options: CacheOptions = {},
+  ) {
+    this.dir = options.dir ?? DEFAULT_CACHE_DIR;
+  }
+
+  get info(): CorrectorInfo {
+    return this.inner.info;
+  }
+
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    const { model, prompt_version } = this.inner.info;
+    const key = cacheKey(transcript, model, prompt_version, feedback);
+    const file = join(this.dir, `${key}.json`);
+
+    const cached = await readRecord(file);
+    if (cached) {
+      this.stats.hits++;
+      return cached.reply as CorrectedEntry[];
+    }
+
+    this.stats.misses++;
+    const reply = await this.inner.structure(transcript, feedback);
+    const record: CacheRecord = {
+      key,
+      model,
+      prompt_version,
+      page_number: transcript.page_number,
+      column: transcript.column,
+      created_at: new Date().toISOString(),
+      reply,
+    };
+    await mkdir(this.dir, { recursive: true });
+    // write-then-rename so an interrupted run never leaves a half-written hit
+    const tmp = `${file}.${process.pid}.tmp`;
+    await writeFile(tmp, JSON.stringify(record));
+    await rename(tmp, file);
+    return reply;
+  }
+}
+
+async function readRecord(file: string): Promise<CacheRecord | null> {
+  try {
+    return JSON.parse(await readFile(file, "utf8")) as CacheRecord;
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw e;
+  }
+}
+
+async function listRecords(dir: string): Promise<Array<{ file: string; record: CacheRecord }>> {
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === "ENOENT") return [];
+    throw e;
+  }
+  const out: Array<{ file: string; record: CacheRecord }> = [];
+  for (const name of names.filter((n) => n.endsWith(".json"))) {
+    const file = join(dir, name);
+    const record = await readRecord(file);
+    if (record) out.push({ file, record });
+  }
+  return out;
+}
+
+export interface InvalidateFilter {
+  model?: string;
+  promptVersion?: string;
+}
+
+/** Delete cached replies matching ALL given filters (an empty filter clears the
+ *  cache). Returns how many were removed. */
+export async function invalidateCache(
+  filter: InvalidateFilter,
+  dir: string = DEFAULT_CACHE_DIR,
+): Promise<number> {
+  let removed = 0;
+  for (const { file, record } of await listRecords(dir)) {
+    if (filter.model !== undefined && record.model !== filter.model) continue;
+    if (filter.promptVersion !== undefined && record.prompt_version !== filter.promptVersion) continue;
+    await rm(file, { force: true });
+    removed++;
+  }
+  return removed;
+}
+
+export interface CacheSummary {
+  entries: number;
+  byModel: Record<string, number>;
+  byPromptVersion: Record<string, number>;
+}
+
+/** What is on disk, grouped the same way invalidation selects. */
+export async function summarizeCache(dir: string = DEFAULT_CACHE_DIR): Promise<CacheSummary> {
+  const summary: CacheSummary = { entries: 0, byModel: {}, byPromptVersion: {} };
+  for (const { record } of await listRecords(dir)) {
+    summary.entries++;
+    summary.byModel[record.model] = (summary.byModel[record.model] ?? 0) + 1;
+    summary.byPromptVersion[record.prompt_version] =
+      (summary.byPromptVersion[record.prompt_version] ?? 0) + 1;
+  }
+  return summary;
+}
@@ -0,0 +1,140 @@
+// Record/replay for the corrector, so full-page pipeline behavior can be pinned in
+// tests/ without a network or an API key. A cassette is one page-column's replies.
+// A column longer than the chunker's window (./chunking.ts) is corrected window by
+// window, so the cassette holds one entry per transcript it was asked about, keyed
+// by that transcript's hash; a normal column has just one. Within a window, turn 0
+// answers the first structure() call and later turns answer the repair loop's
+// re-prompts. RecordingCorrector wraps a live corrector and writes cassettes;
+// ReplayCorrector serves them back.
+//
+// If the deterministic parser changes a transcript, its hash no longer matches and
+// replay refuses instead of serving replies whose line_indices point at different
+// lines -- re-record.
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import type { ColumnTranscript } from "../parser/lines.js";
+import type { Corrector, CorrectorInfo, CorrectedEntry, RepairFeedback } from "./corrector.js";
+import { ACTIVE_PROMPT } from "./prompts.js";
+
+export interface CassetteTurn {
+  feedback: RepairFeedback | null;
+  reply: unknown[];
+}
+
+/** The replies to one transcript: the whole column, or one chunker window of it. */
+export interface CassetteWindow {
+  /** sha256 of the transcript the replies were recorded against */
+  transcript_sha256: string;
+  turns: CassetteTurn[];
+}
+
+export interface Cassette {
+  page_number: number;
+  column: string;
+  /** the live corrector that answered; replayed into provenance */
+  info: CorrectorInfo;
+  recorded_at: string;
+  /** in the order they were first asked */
+  windows: CassetteWindow[];
+}
+
+/** <dir>/05-left.json -- page zero-padded so cassettes sort in page order. */
+export function cassettePath(dir: string, pageNumber: number, column: string): string {
+  return join(dir, `${String(pageNumber).padStart(2, "0")}-${column}.json`);
+}
+
+function transcriptSha256(transcript: ColumnTranscript): string {
+  return createHash("sha256").update(JSON.stringify(transcript)).digest("hex");
+}
+
+export class RecordingCorrector implements Corrector {
+  private readonly open = new Map<string, Cassette>();
+
+  constructor(
+    private readonly inner: Corrector,
+    private readonly dir: string,
+  ) {}
+
+  get info(): CorrectorInfo {
+    return this.inner.info;
+  }
+
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    const reply = await this.inner.structure(transcript, feedback);
+    const file = cassettePath(this.dir, transcript.page_number, transcript.column);
+    const sha = transcriptSha256(transcript);
+
+    // The first call for a column in this recorder starts its cassette over.
+    let cassette = this.open.get(file);
+    if (!cassette) {
+      cassette = {
+        page_number: transcript.page_number,
+        column: transcript.column,
+        info: this.inner.info,
+        recorded_at: new Date().toISOString(),
+        windows: [],
+      };
+      this.open.set(file, cassette);
+    }
+    // A call without feedback starts its window over; re-prompts append to it.
+    let window = cassette.windows.find((w) => w.transcript_sha256 === sha);
+    if (!window) {
+      window = { transcript_sha256: sha, turns: [] };
+      cassette.windows.push(window);
+    } else if (!feedback) {
+      window.turns = [];
+    }
+    window.turns.push({ feedback: feedback ?? null, reply });
+
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(file, `${JSON.stringify(cassette, null, 2)}\n`);
+    return reply;
+  }
+}
+
+export class ReplayCorrector implements Corrector {
+  private readonly cursor = new Map<string, number>();
+  private last: CorrectorInfo | null = null;
+
+  constructor(private readonly dir: string) {}
+
+  /** The recorded corrector's identity once a cassette has been served. */
+  get info(): CorrectorInfo {
+    return this.last ?? { profile: "mock", model: "replay", prompt_version: ACTIVE_PROMPT };
+  }
+
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    const file = cassettePath(this.dir, transcript.page_number, transcript.column);
+    let cassette: Cassette;
+    try {
+      cassette = JSON.parse(await readFile(file, "utf8")) as Cassette;
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`ReplayCorrector: no cassette ${file} (record one with scripts/record.mjs)`);
+      }
+      throw e;
+    }
+    const sha = transcriptSha256(transcript);
+    const window = cassette.windows.find((w) => w.transcript_sha256 === sha);
+    if (!window) {
+      throw new Error(`ReplayCorrector: ${file} was recorded against a different transcript; re-record`);
+    }
+
+    const key = `${file}#${sha}`;
+    const turn = feedback ? (this.cursor.get(key) ?? 0) + 1 : 0;
+    const recorded = window.turns[turn];
+    if (!recorded) {
+      throw new Error(`ReplayCorrector: ${file} has no turn ${turn} (repair loop diverged; re-record)`);
+    }
+    this.cursor.set(key, turn);
+    this.last = cassette.info;
+    return recorded.reply as CorrectedEntry[];
+  }
+}
@@ -0,0 +1,213 @@
+// OpenAI-compatible chat-completions transport shared by the text corrector and
+// the vision re-read pass. Plain fetch, no SDK: the profile in ./config.ts supplies
+// model, base URL and the NAME of the key's env var. Owns timeout, bounded retry
+// with backoff, and the run's usage ledger (reserve before, record after).
+import { type LlmProfile, type ProfilePricing, pricingFor } from "./config.js";
+import { type UsageLedger, costUsd, estimateTokens } from "./usage.js";
+
+/** Used when a profile leaves baseUrl undefined ("the provider default"). */
+export const DEFAULT_BASE_URL = "https://api.openai.com/v1";
+
+/** Budget-side token guess for one image part. Providers bill images by size; a
+ *  line crop is small, so this is a generous flat ceiling, not a measurement. */
+const IMAGE_TOKEN_ESTIMATE = 1_000;
+
+export interface ChatClientOptions {
+  /** per-attempt request timeout */
+  timeoutMs?: number;
+  /** retries AFTER the first attempt, for 429 / 5xx / network / timeout */
+  maxRetries?: number;
+  /** first backoff delay; doubles per retry unless the server sends Retry-After */
+  backoffMs?: number;
+  /** longest Retry-After honored; a server asking for more fails the call */
+  maxRetryDelayMs?: number;
+  /** explicit key; defaults to process.env[profile.apiKeyEnv] */
+  apiKey?: string;
+  /** run ledger: every completed call is recorded, and its budget is enforced */
+  ledger?: UsageLedger;
+  /** sent as max_tokens; also the worst case the budget reserves per call */
+  maxCompletionTokens?: number;
+  /** defaults to pricingFor(profile.name) */
+  pricing?: ProfilePricing;
+}
+
+export type ChatContentPart =
+  | { type: "text"; text: string }
+  | { type: "image_url"; image_url: { url: string } };
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string | ChatContentPart[];
+}
+
+/** Where a call's cost is booked in the ledger. */
+export interface CallContext {
+  page_number: number;
+  column: string;
+}
+
+interface ChatCompletion {
+  choices?: Array<{ message?: { content?: string | null } }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+interface Completion {
+  content: string;
+  usage: ChatCompletion["usage"];
+  latencyMs: number;
+}
+
+/** Statuses worth retrying: rate limit + transient server-side failures. */
+function isRetryable(status: number): boolean {
+  return status === 429 || status >= 500;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Retry-After is either delta-seconds or an HTTP date; null if absent/unparseable. */
+function retryAfterMs(header: string | null): number | null {
+  if (header === null) return null;
+  const secs = Number(header);
+  if (Number.isFinite(secs)) return Math.max(0, secs * 1000);
+  const at = Date.parse(header);
+  return Number.isNaN(at) ? null : Math.max(0, at - Date.now());
+}
+
+function estimatePromptTokens(messages: ChatMessage[]): number {
+  let tokens = 0;
+  for (const m of messages) {
+    if (typeof m.content === "string") {
+      tokens += estimateTokens(m.content);
+      continue;
+    }
+    for (const part of m.content) {
+      tokens += part.type === "text" ? estimateTokens(part.text) : IMAGE_TOKEN_ESTIMATE;
+    }
+  }
+  return tokens;
+}
+
+export class ChatClient {
+  private readonly url: string;
+  private readonly apiKey: string;
+  private readonly timeoutMs: number;
+  private readonly maxRetries: number;
+  private readonly backoffMs: number;
+  private readonly maxRetryDelayMs: number;
+  private readonly maxCompletionTokens: number;
+  private readonly pricing: ProfilePricing;
+  private readonly ledger: UsageLedger | undefined;
+
+  constructor(
+    readonly profile: LlmProfile,
+    options: ChatClientOptions = {},
+  ) {
+    const key = options.apiKey ?? process.env[profile.apiKeyEnv];
+    if (!key) {
+      throw new Error(
+        `LLM profile "${profile.name}" needs an API key: set ${profile.apiKeyEnv} in .env`,
+      );
+    }
+    this.apiKey = key;
+    this.url = `${(profile.baseUrl ?? DEFAULT_BASE_URL).replace(/\/+$/, "")}/chat/completions`;
+    this.timeoutMs = options.timeoutMs ?? 120_000;
+    this.maxRetries = options.maxRetries ?? 3;
+    this.backoffMs = options.backoffMs ?? 1_000;
+    this.maxRetryDelayMs = options.maxRetryDelayMs ?? 60_000;
+    this.maxCompletionTokens = options.maxCompletionTokens ?? 8_192;
+    this.pricing = options.pricing ?? pricingFor(profile.name);
+    this.ledger = options.ledger;
+  }
+
+  /** One chat completion: reserve worst-case cost, call, record actual usage.
+   *  Returns the reply text. */
+  async complete(messages: ChatMessage[], context: CallContext): Promise<string> {
+    const promptEstimate = estimatePromptTokens(messages);
+    const reservation = this.ledger?.reserve(costUsd(this.pricing, promptEstimate, this.maxCompletionTokens));
+
+    let reply: Completion;
+    try {
+      reply = await this.send(messages);
+    } catch (e) {
+      if (reservation !== undefined) this.ledger?.release(reservation);
+      throw e;
+    }
+    const { content, usage, latencyMs } = reply;
+    const promptTokens = usage?.prompt_tokens;
+    const completionTokens = usage?.completion_tokens;
+    const prompt = promptTokens ?? promptEstimate;
+    const completion = completionTokens ?? estimateTokens(content);
+    this.ledger?.record({
+      ...context,
+      profile: this.profile.name,
+      model: this.profile.model,
+      prompt_tokens: prompt,
+      completion_tokens: completion,
+      latency_ms: latencyMs,
+      cost_usd: costUsd(this.pricing, prompt, completion),
+      estimated: promptTokens === undefined || completionTokens === undefined,
+    }, reservation);
+    return content;
+  }
+
+  /** POST with timeout + bounded retry. Latency covers the successful attempt
+   *  only, not backoff. */
+  private async send(messages: ChatMessage[]): Promise<Completion> {
+    const body = JSON.stringify({
+      model: this.profile.model,
+      messages,
+      temperature: 0,
+      max_tokens: this.maxCompletionTokens,
+    });
+    let lastError: Error | null = null;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      let wait = this.backoffMs * 2 ** attempt;
+      try {
+        const started = performance.now();
+        const res = await fetch(this.url, {
+          method: "POST",
+          headers: {
+            "content-type": "application/json",
+            authorization: `Bearer ${this.apiKey}`,
+          },
+          body,
+          signal: AbortSignal.timeout(this.timeoutMs),
+        });
+        if (res.ok) {
+          const json = (await res.json()) as ChatCompletion;
+          const content = json.choices?.[0]?.message?.content;
+          if (typeof content !== "string") {
+            throw new Error(`${this.profile.name}: completion has no message content`);
+          }
+          return { content, usage: json.usage, latencyMs: performance.now() - started };
+        }
+        const detail = (await res.text()).slice(0, 200);
+        const err = new Error(`${this.profile.name}: HTTP ${res.status} from ${this.url}: ${detail}`);
+        if (!isRetryable(res.status)) throw err;
+        lastError = err;
+        const asked = retryAfterMs(res.headers.get("retry-after"));
+        if (asked !== null && asked > this.maxRetryDelayMs) {
+          throw new Error(
+            `${err.message} (Retry-After ${Math.ceil(asked / 1000)}s exceeds maxRetryDelayMs ${this.maxRetryDelayMs})`,
+          );
+        }
+        wait = asked ?? wait;
+      } catch (e) {
+        // Network failures and AbortSignal timeouts surface as TypeError /
+        // DOMException; those are transient. Anything we threw above is not.
+        const transient =
+          e instanceof TypeError ||
+          (e instanceof Error && (e.name === "TimeoutError" || e.name === "AbortError"));
+        if (!transient) throw e;
+        lastError = new Error(`${this.profile.name}: request failed: ${(e as Error).message}`);
+      }
+      if (attempt < this.maxRetries) await sleep(wait);
+    }
+    throw new Error(
+      `${this.profile.name}: giving up after ${this.maxRetries + 1} attempts: ${lastError?.message ?? "unknown error"}`,
+    );
+  }
+}
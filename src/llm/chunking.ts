@@ -0,0 +1,147 @@
+// Chunked correction for long columns. One structure() call per column is fine for
+// a normal page, but dense pages (and later the appendices) outgrow the context
+// window, and reply quality drops well before that. ChunkingCorrector splits the
+// transcript into overlapping windows of lines, cut where possible just before a
+// likely headword, corrects each window through its own gate + repair loop, and
+// merges the replies back with line_indices remapped to the full column.
+//
+// Overlap exists so an entry straddling a cut is seen whole by one window. Each
+// window OWNS the entries that start inside its own stretch [cut_prev, cut); the
+// copies other windows produced of the same lines are dropped. An owned entry
+// longer than the overlap still runs off the end of its window; the merge marks
+// it truncated_at its window's last line rather than passing it as whole.
+import type { ColumnTranscript, Line } from "../parser/lines.js";
+import { isNoiseLine } from "../parser/noise.js";
+import type { Corrector, CorrectorInfo, CorrectedEntry, RepairFeedback } from "./corrector.js";
+import { correctWithRepair } from "./repair.js";
+
+export interface ChunkOptions {
+  /** longest window sent in one call, overlap included (default 80) */
+  maxLines?: number;
+  /** lines shared with each neighbouring window (default 6) */
+  overlap?: number;
+}
+
+/** One window: lines [start, end) are sent; entries starting in [ownFrom, ownTo) are kept. */
+export interface Chunk {
+  start: number;
+  end: number;
+  ownFrom: number;
+  ownTo: number;
+}
+
+/** A latin line whose next non-noise line is Farsi (or mixed) reads like
+ *  "Headword / Farsi equivalent" -- the start of an entry (docs/04 F1, F6). Short,
+ *  because a definition line ending right before a Farsi line is usually long. */
+export function isLikelyHeadwordLine(lines: readonly Line[], i: number): boolean {
+  const line = lines[i];
+  if (!line || line.script !== "latin" || line.words.length > 4) return false;
+  for (let j = i + 1; j < lines.length; j++) {
+    const next = lines[j]!;
+    if (isNoiseLine(next)) continue;
+    return next.script === "farsi" || next.script === "mixed";
+  }
+  return false;
+}
+
+/** Plan the windows for `lines`. A column that fits yields a single chunk. */
+export function planChunks(lines: readonly Line[], options: ChunkOptions = {}): Chunk[] {
+  const maxLines = options.maxLines ?? 80;
+  const overlap = options.overlap ?? 6;
+  if (maxLines <= 2 * overlap) {
+    throw new Error(`planChunks: maxLines (${maxLines}) must exceed twice the overlap (${overlap})`);
+  }
+  const n = lines.length;
+  const cuts: number[] = [0];
+  // Each window spans [cut_prev - overlap, cut + overlap); choose cut so that
+  // stays within maxLines, as late as possible at a headword line.
+  for (let from = 0; from + maxLines - (from > 0 ? overlap : 0) < n; ) {
+    const latest = from - (from > 0 ? overlap : 0) + maxLines - overlap;
+    let cut = latest;
+    for (let c = latest; c > from + overlap; c--) {
+      if (isLikelyHeadwordLine(lines, c)) {
+        cut = c;
+        break;
+      }
+    }
+    cuts.push(cut);
+    from = cut;
+  }
+  cuts.push(n);
+
+  const chunks: Chunk[] = [];
+  for (let k = 0; k + 1 < cuts.length; k++) {
+    const ownFrom = cuts[k]!;
+    const ownTo = cuts[k + 1]!;
+    chunks.push({
+      start: Math.max(0, ownFrom - overlap),
+      end: Math.min(n, ownTo + overlap),
+      ownFrom,
+      ownTo,
+    });
+  }
+  return chunks;
+}
+
+/** Merge per-chunk replies (window-local line_indices) into one column reply:
+ *  remap, keep only owned entries, drop exact duplicates, and mark an entry that
+ *  reaches the last line of a window other than the column's last. */
+export function mergeChunks(chunks: readonly Chunk[], replies: CorrectedEntry[][]): CorrectedEntry[] {
+  const out: CorrectedEntry[] = [];
+  const seen = new Set<string>();
+  const columnEnd = chunks.at(-1)?.end ?? 0;
+  chunks.forEach((chunk, k) => {
+    for (const e of replies[k] ?? []) {
+      const line_indices = e.line_indices.map((i) => i + chunk.start);
+      const first = line_indices[0];
+      // an entry citing nothing has no position; keep it (the gate flags it) in its own window
+      if (first !== undefined && (first < chunk.ownFrom || first >= chunk.ownTo)) continue;
+      const key = `${line_indices.join(",")}|${e.headword_en}`;
+      if (seen.has(key)) continue;
+      seen.add(key);
+      const cutOff = chunk.end < columnEnd && line_indices.includes(chunk.end - 1);
+      out.push(cutOff ? { ...e, line_indices, truncated_at: chunk.end - 1 } : { ...e, line_indices });
+    }
+  });
+  return out;
+}
+
+/** Wraps a corrector; columns longer than maxLines are corrected window by window. */
+export class ChunkingCorrector implements Corrector {
+  constructor(
+    private readonly inner: Corrector,
+    private readonly options: ChunkOptions = {},
+  ) {}
+
+  get info(): CorrectorInfo {
+    return this.inner.info;
+  }
+
+  /** The windows `transcript` is corrected in; one means it goes straight through. */
+  plan(transcript: ColumnTranscript): Chunk[] {
+    return planChunks(transcript.lines, this.options);
+  }
+
+  // Every window goes through its own repair loop, so a chunked column takes no
+  // repair round as a whole: run correctWithRepair on it with maxRepairs 0.
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    const chunks = this.plan(transcript);
+    if (chunks.length === 1) return this.inner.structure(transcript, feedback);
+    if (feedback) {
+      throw new Error(
+        `ChunkingCorrector: page ${transcript.page_number} ${transcript.column} is chunked and repaired per window, not as a whole`,
+      );
+    }
+
+    const replies: CorrectedEntry[][] = [];
+    for (const c of chunks) {
+      const window = { ...transcript, lines: transcript.lines.slice(c.start, c.end) };
+      const checked = await correctWithRepair(this.inner, window);
+      replies.push(checked.map((x) => x.entry));
+    }
+    return mergeChunks(chunks, replies);
+  }
+}
@@ -5,58 +5,124 @@
 //  named in ACTIVE_PROFILE below. Change that one line to switch models.
 //
 //  Guide §13.4 leaves the model open and marks exact model ids [verify], so the
-//  concrete model string is read from env (LLM_MODEL) with a placeholder default.
-//  Fill LLM_MODEL + LLM_API_KEY in .env before running a real correction pass.
+//  concrete model string is read from env with a placeholder default. Each
+//  profile has its OWN model, key and endpoint vars, so a consensus run over
+//  frontier + deepseek really compares two models. Fill them in .env before
+//  running a real correction pass.
 //
 //  PROFILES:
 //    "frontier"  DEFAULT. Highest accuracy for OCR fixes + Farsi structuring.
-//                A top-tier VLM/LLM. Set LLM_MODEL + LLM_API_KEY.
+//                A top-tier VLM/LLM. Set LLM_FRONTIER_MODEL + LLM_FRONTIER_API_KEY
+//                (+ LLM_FRONTIER_BASE_URL for a non-OpenAI endpoint).
 //    "deepseek"  Cheapest per-token (belongs mainly to the recurring chatbot,
-//                §8, but usable here if cost dominates). Set LLM_BASE_URL to the
-//                DeepSeek endpoint + LLM_API_KEY.
+//                §8, but usable here if cost dominates). Set LLM_DEEPSEEK_MODEL +
+//                DEEPSEEK_API_KEY (LLM_DEEPSEEK_BASE_URL defaults to DeepSeek's).
+//    "rules"     No network, no model: deterministic segmentation from layout
+//                signals (llm/rule-corrector.ts). Zero-cost offline mode and the
+//                eval baseline; it corrects no OCR.
 //    "mock"      No network, returns nothing. Lets the pipeline/tests run with
 //                no API key (use LLM_PROFILE=mock).
+//
+//  The optional vision re-read pass (llm/vision.ts) needs an image-capable
+//  profile (`vision: true`); it is named separately in ACTIVE_VISION_PROFILE.
 // ============================================================================
 
-export type ProfileName = "frontier" | "deepseek" | "mock";
+export type ProfileName = "frontier" | "deepseek" | "rules" | "mock";
 
 // <<< CHANGE THIS LINE to switch models. Env var LLM_PROFILE overrides it. >>>
 export const ACTIVE_PROFILE: ProfileName =
   (process.env.LLM_PROFILE as ProfileName | undefined) ?? "frontier";
 
+// <<< CHANGE THIS LINE to switch the vision re-read model. Env var LLM_VISION_PROFILE overrides it. >>>
+export const ACTIVE_VISION_PROFILE: ProfileName =
+  (process.env.LLM_VISION_PROFILE as ProfileName | undefined) ?? "frontier";
+
 export interface LlmProfile {
   name: ProfileName;
-  /** exact model id -- [verify]; override with LLM_MODEL in .env */
+  /** exact model id -- [verify]; set per profile in .env (LLM_<PROFILE>_MODEL) */
   model: string;
   /** OpenAI-compatible base URL; undefined = the provider default */
   baseUrl: string | undefined;
   /** name of the env var holding the API key */
   apiKeyEnv: string;
+  /** accepts image input (OpenAI image_url parts) -- [verify] per model */
+  vision: boolean;
 }
 
 const PROFILES: Record<ProfileName, LlmProfile> = {
   frontier: {
     name: "frontier",
-    model: process.env.LLM_MODEL ?? "SET_FRONTIER_MODEL_ID", // [verify] provider catalog
-    baseUrl: process.env.LLM_BASE_URL,
-    apiKeyEnv: "LLM_API_KEY",
+    model: process.env.LLM_FRONTIER_MODEL ?? "SET_FRONTIER_MODEL_ID", // [verify] provider catalog
+    baseUrl: process.env.LLM_FRONTIER_BASE_URL,
+    apiKeyEnv: "LLM_FRONTIER_API_KEY",
+    vision: true, // [verify] the model set in LLM_FRONTIER_MODEL takes images
   },
   deepseek: {
     name: "deepseek",
-    model: process.env.LLM_MODEL ?? "SET_DEEPSEEK_MODEL_ID", // [verify] provider catalog
-    baseUrl: process.env.LLM_BASE_URL ?? "https://api.deepseek.com",
+    model: process.env.LLM_DEEPSEEK_MODEL ?? "SET_DEEPSEEK_MODEL_ID", // [verify] provider catalog
+    baseUrl: process.env.LLM_DEEPSEEK_BASE_URL ?? "https://api.deepseek.com",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    vision: false,
+  },
+  rules: {
+    name: "rules",
+    model: "rules",
+    baseUrl: undefined,
     apiKeyEnv: "LLM_API_KEY",
+    vision: false,
   },
   mock: {
     name: "mock",
     model: "mock",
     baseUrl: undefined,
     apiKeyEnv: "LLM_API_KEY",
+    vision: false,
   },
 };
 
-export function activeProfile(): LlmProfile {
-  const p = PROFILES[ACTIVE_PROFILE];
-  if (!p) throw new Error(`unknown LLM profile: ${String(ACTIVE_PROFILE)}`);
+// ----------------------------------------------------------------------------
+//  PRICING  --  USD per 1M tokens, per profile. Used for cost/budget accounting
+//  (llm/usage.ts). All values are [verify] against the provider's price page for
+//  the model actually set; LLM_<PROFILE>_PRICE_INPUT / _PRICE_OUTPUT override
+//  ONE profile's numbers without editing code (a shared override would misprice
+//  the other profile in a mixed run).
+//  Guide §3: the whole correction pass should cost "a few dollars at most" --
+//  if a run's estimate says otherwise, suspect the pricing here first.
+// ----------------------------------------------------------------------------
+
+export interface ProfilePricing {
+  inputUsdPerMTok: number;
+  outputUsdPerMTok: number;
+}
+
+const envPrice = (name: string, fallback: number): number => {
+  const v = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(v) ? v : fallback;
+};
+
+const PRICING: Record<ProfileName, ProfilePricing> = {
+  frontier: {
+    inputUsdPerMTok: envPrice("LLM_FRONTIER_PRICE_INPUT", 3.0), // [verify] placeholder tier
+    outputUsdPerMTok: envPrice("LLM_FRONTIER_PRICE_OUTPUT", 15.0), // [verify]
+  },
+  deepseek: {
+    inputUsdPerMTok: envPrice("LLM_DEEPSEEK_PRICE_INPUT", 0.27), // [verify] provider pricing
+    outputUsdPerMTok: envPrice("LLM_DEEPSEEK_PRICE_OUTPUT", 1.1), // [verify]
+  },
+  rules: { inputUsdPerMTok: 0, outputUsdPerMTok: 0 },
+  mock: { inputUsdPerMTok: 0, outputUsdPerMTok: 0 },
+};
+
+export function pricingFor(name: ProfileName): ProfilePricing {
+  return PRICING[name] ?? { inputUsdPerMTok: 0, outputUsdPerMTok: 0 };
+}
+
+export function profileByName(name: ProfileName): LlmProfile {
+  const p = PROFILES[name];
+  if (!p) throw new Error(`unknown LLM profile: ${String(name)}`);
   return p;
 }
+
+export function activeProfile(): LlmProfile {
+  return profileByName(ACTIVE_PROFILE);
+}
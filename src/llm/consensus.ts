@@ -0,0 +1,163 @@
+// Multi-model consensus (guide: "pick the model on measured accuracy"). For legal
+// terms one model's word isn't enough: run 2+ correctors on the same transcript,
+// align their entries by line_indices, and merge where they agree. Where the
+// headword, the Farsi equivalent or the segmentation itself differ, the entry keeps
+// every model's candidate and is routed to review -- the reviewer picks, not us.
+import type { ColumnTranscript } from "../parser/lines.js";
+import { normalizeFa } from "../validation/normalize.js";
+import { type ProfileName, profileByName } from "./config.js";
+import {
+  type Corrector,
+  type CorrectorInfo,
+  type CorrectedEntry,
+  type RepairFeedback,
+  createCorrector,
+} from "./corrector.js";
+import type { HttpCorrectorOptions } from "./http-corrector.js";
+import { correctWithRepair } from "./repair.js";
+
+export type DisagreementField = "headword_en" | "translation_fa" | "segmentation";
+
+export interface ConsensusCandidate {
+  profile: ProfileName;
+  model: string;
+  /** one entry for a field disagreement; 0..n for a segmentation disagreement */
+  entries: CorrectedEntry[];
+}
+
+export interface Disagreement {
+  fields: DisagreementField[];
+  candidates: ConsensusCandidate[];
+}
+
+const keyOf = (e: CorrectedEntry): string => e.line_indices.join(",");
+const sameHeadword = (a: CorrectedEntry, b: CorrectedEntry): boolean =>
+  a.headword_en.trim() === b.headword_en.trim();
+// Compare Farsi after the deterministic normalizer so ي/ی-style OCR noise that
+// normalization fixes anyway is not reported as a disagreement.
+const faKey = (s: string): string => normalizeFa(s).replace(/\s+/g, " ").trim();
+const sameFarsi = (a: CorrectedEntry, b: CorrectedEntry): boolean =>
+  faKey(a.translation_fa) === faKey(b.translation_fa);
+
+/** Group entries from all models into clusters of overlapping line coverage. Each
+ *  cluster is one stretch of the column every model segmented on its own. */
+function clusters(replies: CorrectedEntry[][]): Array<CorrectedEntry[][]> {
+  type Node = { model: number; entry: CorrectedEntry };
+  const nodes: Node[] = replies.flatMap((r, model) => r.map((entry) => ({ model, entry })));
+  const parent = nodes.map((_n, i) => i);
+  const find = (i: number): number => {
+    let r = i;
+    while (parent[r] !== r) r = parent[r] ?? r;
+    return r;
+  };
+  const owner = new Map<number, number>();
+  nodes.forEach((n, i) => {
+    for (const line of n.entry.line_indices) {
+      const o = owner.get(line);
+      if (o === undefined) owner.set(line, i);
+      else parent[find(i)] = find(o);
+    }
+  });
+
+  const groups = new Map<number, CorrectedEntry[][]>();
+  nodes.forEach((n, i) => {
+    const root = find(i);
+    let g = groups.get(root);
+    if (!g) groups.set(root, (g = replies.map(() => [])));
+    g[n.model]?.push(n.entry);
+  });
+  // column order = first cited line of the cluster
+  const first = (g: CorrectedEntry[][]): number =>
+    Math.min(...g.flat().map((e) => e.line_indices[0] ?? Infinity));
+  return [...groups.values()].sort((a, b) => first(a) - first(b));
+}
+
+/** Merge per-model replies. The FIRST corrector is primary: its entries are the ones
+ *  emitted (with candidates attached on disagreement). */
+export function mergeConsensus(
+  replies: CorrectedEntry[][],
+  infos: CorrectorInfo[],
+): CorrectedEntry[] {
+  const candidates = (perModel: CorrectedEntry[][]): ConsensusCandidate[] =>
+    perModel.map((entries, m) => ({
+      profile: infos[m]?.profile ?? "mock",
+      model: infos[m]?.model ?? "",
+      entries,
+    }));
+
+  const out: CorrectedEntry[] = [];
+  for (const group of clusters(replies)) {
+    const primary = group[0] ?? [];
+    const keys = group.map((entries) => entries.map(keyOf).join("|"));
+    const segmentationAgrees = keys.every((k) => k === keys[0]);
+
+    if (!segmentationAgrees) {
+      const disagreement: Disagreement = {
+        fields: ["segmentation"],
+        candidates: candidates(group),
+      };
+      // Primary said nothing about these lines: there's no entry to hang the
+      // candidates on, so surface the next model's whole segmentation instead --
+      // every entry of it, so none of its lines end up uncited.
+      const carriers = primary.length > 0 ? primary : group.find((g) => g.length > 0) ?? [];
+      for (const e of carriers) out.push({ ...e, disagreement });
+      continue;
+    }
+
+    primary.forEach((e, j) => {
+      const fields: DisagreementField[] = [];
+      const others = group.slice(1).map((g) => g[j]).filter((x): x is CorrectedEntry => !!x);
+      if (others.some((o) => !sameHeadword(e, o))) fields.push("headword_en");
+      if (others.some((o) => !sameFarsi(e, o))) fields.push("translation_fa");
+      if (fields.length === 0) {
+        out.push(e);
+      } else {
+        out.push({
+          ...e,
+          disagreement: { fields, candidates: candidates(group.map((g) => (g[j] ? [g[j]] : []))) },
+        });
+      }
+    });
+  }
+  return out;
+}
+
+/** Runs every corrector (each through its own gate + repair loop) and merges. */
+export class ConsensusCorrector implements Corrector {
+  constructor(private readonly correctors: Corrector[]) {
+    if (correctors.length < 2) {
+      throw new Error("ConsensusCorrector needs at least two correctors");
+    }
+  }
+
+  /** Primary's profile/prompt; model lists every participant ("a+b") so provenance
+   *  shows the entry came from a consensus run. */
+  get info(): CorrectorInfo {
+    const primary = this.correctors[0]!.info;
+    return { ...primary, model: this.correctors.map((c) => c.info.model).join("+") };
+  }
+
+  // Feedback is not forwarded: each model was already re-prompted on its OWN reply,
+  // and the merge only re-emits model entries, so a repair round on the merge has
+  // nothing new to tell them. Hand the same reply back instead of paying for N more
+  // calls; whatever still fails the gate gets flagged.
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    if (feedback) return feedback.previous as CorrectedEntry[];
+    const checked = await Promise.all(this.correctors.map((c) => correctWithRepair(c, transcript)));
+    return mergeConsensus(
+      checked.map((entries) => entries.map((c) => c.entry)),
+      this.correctors.map((c) => c.info),
+    );
+  }
+}
+
+/** Consensus over named profiles from config.ts, e.g. ["frontier", "deepseek"]. */
+export function createConsensusCorrector(
+  profiles: ProfileName[],
+  options: HttpCorrectorOptions = {},
+): ConsensusCorrector {
+  return new ConsensusCorrector(profiles.map((name) => createCorrector(profileByName(name), options)));
+}
@@ -2,8 +2,13 @@
 // into entries and corrects OCR -- a corrector, not an oracle; its output still
 // passes the same Zod + cross-record gate. The MODEL is chosen in ./config.ts
 // (default: frontier). No SDK/model id is hardcoded here.
+import { randomUUID } from "node:crypto";
 import type { ColumnTranscript } from "../parser/lines.js";
-import { activeProfile } from "./config.js";
+import { type LlmProfile, type ProfileName, activeProfile } from "./config.js";
+import { type HttpCorrectorOptions, HttpCorrector } from "./http-corrector.js";
+import { type RULES_VERSION, RuleBasedCorrector } from "./rule-corrector.js";
+import { type PromptId, ACTIVE_PROMPT } from "./prompts.js";
+import type { Disagreement } from "./consensus.js";
 
 /** What the LLM emits per entry. line_indices point back into the transcript's
  *  lines so the parser can recover the source-image bbox + confidence. */
@@ -16,34 +21,66 @@ export interface CorrectedEntry {
   is_continuation: boolean;
   raw_ocr_snippet: string;
   line_indices: number[];
+  /** Set by ConsensusCorrector, never by a model: every model's candidate when
+   *  they disagreed on this entry. Carried onto Entry for the reviewer. */
+  disagreement?: Disagreement | undefined;
+  /** Set by ChunkingCorrector, never by a model: the entry ran to this line, the
+   *  last of its window, so lines after it that belong to it were never sent
+   *  with it. Flagged on Entry for the reviewer. */
+  truncated_at?: number | undefined;
+}
+
+/** Sent back on a re-prompt: the reply that failed the gate (./schema.ts) and the
+ *  specific violations, so the model fixes exactly those. */
+export interface RepairFeedback {
+  previous: readonly unknown[];
+  violations: string[];
+}
+
+/** Identity of whatever answers structure(); stamped into every Entry's provenance.
+ *  Decorators (cache, ...) report the corrector they wrap. */
+export interface CorrectorInfo {
+  profile: ProfileName;
+  model: string;
+  /** prompt registry id; the rule-set version for the LLM-free "rules" profile */
+  prompt_version: PromptId | typeof RULES_VERSION;
 }
 
 export interface Corrector {
-  structure(transcript: ColumnTranscript): Promise<CorrectedEntry[]>;
+  readonly info: CorrectorInfo;
+  structure(transcript: ColumnTranscript, feedback?: RepairFeedback): Promise<CorrectedEntry[]>;
+}
+
+/** One id per correction run; stamped into every Entry's provenance.run_id. */
+export function newRunId(): string {
+  return randomUUID();
 }
 
 /** No-network corrector: lets parsePage + tests run without an API key. */
 export class MockCorrector implements Corrector {
+  readonly info: CorrectorInfo = { profile: "mock", model: "mock", prompt_version: ACTIVE_PROMPT };
+
   async structure(_transcript: ColumnTranscript): Promise<CorrectedEntry[]> {
     return [];
   }
 }
 
 /** Build the corrector for the profile selected in config.ts (default: frontier).
- *  The real API client for frontier/deepseek is the NEXT task; until it's wired
- *  those profiles throw, so it's obvious the model call isn't implemented yet.
- *  Use LLM_PROFILE=mock to exercise the pipeline without a model. */
-export function createCorrector(): Corrector {
-  const p = activeProfile();
-  switch (p.name) {
+ *  frontier/deepseek go through the OpenAI-compatible HttpCorrector, which needs
+ *  the profile's API key. LLM_PROFILE=rules segments offline with no model;
+ *  LLM_PROFILE=mock exercises the pipeline and returns nothing. */
+export function createCorrector(
+  profile: LlmProfile = activeProfile(),
+  options: HttpCorrectorOptions = {},
+): Corrector {
+  switch (profile.name) {
     case "mock":
       return new MockCorrector();
+    case "rules":
+      return new RuleBasedCorrector();
     case "frontier":
     case "deepseek":
-      throw new Error(
-        `LLM profile "${p.name}" selected (model=${p.model}) but the API client is ` +
-          `not implemented yet. Wire it in llm/corrector.ts, or use LLM_PROFILE=mock.`,
-      );
+      return new HttpCorrector(profile, options);
     default:
       return new MockCorrector();
   }
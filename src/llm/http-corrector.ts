@@ -0,0 +1,91 @@
+// OpenAI-compatible Corrector for the frontier/deepseek profiles (T3). Transport,
+// retry and usage accounting live in ./chat.ts; this file is the docs/04 contract:
+// prompt + serialized ColumnTranscript in, strict JSON array of CorrectedEntry out.
+// Models still wrap the array in fences or prose now and then -- extractJsonArray
+// tolerates that rather than failing the page.
+import type { ColumnTranscript } from "../parser/lines.js";
+import type { LlmProfile } from "./config.js";
+import type { Corrector, CorrectorInfo, CorrectedEntry, RepairFeedback } from "./corrector.js";
+import { type ChatClientOptions, type ChatMessage, ChatClient } from "./chat.js";
+import { type PromptId, type PromptVersion, getPrompt, repairPrompt } from "./prompts.js";
+
+export interface HttpCorrectorOptions extends ChatClientOptions {
+  /** registry id; defaults to ACTIVE_PROMPT */
+  prompt?: PromptId;
+}
+
+/** Pull the JSON array out of a model reply. Accepts the strict form, a ```json
+ *  fenced block, or an array embedded in prose; anything else throws. */
+export function extractJsonArray(reply: string): unknown[] {
+  const candidates: string[] = [reply.trim()];
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(reply);
+  if (fenced?.[1] !== undefined) candidates.push(fenced[1].trim());
+  const start = reply.indexOf("[");
+  const end = reply.lastIndexOf("]");
+  if (start !== -1 && end > start) candidates.push(reply.slice(start, end + 1));
+
+  for (const c of candidates) {
+    try {
+      const parsed: unknown = JSON.parse(c);
+      if (Array.isArray(parsed)) return parsed;
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new Error(`corrector reply is not a JSON array: ${reply.slice(0, 200)}`);
+}
+
+/** What the model is sent: the Line and Word fields the prompt describes (docs/04
+ *  §3: text, script, yTop, bbox, avgConfidence, words; plus each segment's script
+ *  and text when the prompt documents segments). Symbol detail, rectified boxes
+ *  and line quality stay out -- per-symbol boxes alone make a column prompt
+ *  several times larger. Caches and cassettes still hash the full transcript. */
+export function promptTranscript(transcript: ColumnTranscript, prompt: PromptVersion = getPrompt()): unknown {
+  return {
+    page_number: transcript.page_number,
+    column: transcript.column,
+    column_index: transcript.column_index,
+    lines: transcript.lines.map((l) => ({
+      text: l.text,
+      script: l.script,
+      yTop: l.yTop,
+      bbox: l.bbox,
+      avgConfidence: l.avgConfidence,
+      words: l.words.map((w) => ({ text: w.text, bbox: w.bbox, languageCode: w.languageCode, confidence: w.confidence })),
+      ...(prompt.segments ? { segments: l.segments.map(({ script, text }) => ({ script, text })) } : {}),
+    })),
+  };
+}
+
+export class HttpCorrector implements Corrector {
+  readonly info: CorrectorInfo;
+  private readonly prompt: PromptVersion;
+  private readonly chat: ChatClient;
+
+  constructor(profile: LlmProfile, options: HttpCorrectorOptions = {}) {
+    this.chat = new ChatClient(profile, options);
+    this.prompt = getPrompt(options.prompt);
+    this.info = { profile: profile.name, model: profile.model, prompt_version: this.prompt.id };
+  }
+
+  async structure(
+    transcript: ColumnTranscript,
+    feedback?: RepairFeedback,
+  ): Promise<CorrectedEntry[]> {
+    const messages: ChatMessage[] = [
+      { role: "system", content: this.prompt.text },
+      { role: "user", content: JSON.stringify(promptTranscript(transcript, this.prompt)) },
+    ];
+    if (feedback) {
+      messages.push(
+        { role: "assistant", content: JSON.stringify(feedback.previous) },
+        { role: "user", content: repairPrompt(feedback.violations) },
+      );
+    }
+    const reply = await this.chat.complete(messages, {
+      page_number: transcript.page_number,
+      column: transcript.column,
+    });
+    return extractJsonArray(reply) as CorrectedEntry[];
+  }
+}
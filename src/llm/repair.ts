@@ -0,0 +1,27 @@
+// Re-prompt loop around any Corrector. A reply that fails the gate (./schema.ts) is
+// sent back with its specific violations a bounded number of times; if it still
+// fails, the last reply is returned WITH its violations so toEntry flags those
+// entries for review. Nothing is dropped and nothing invalid passes silently.
+import type { ColumnTranscript } from "../parser/lines.js";
+import type { Corrector } from "./corrector.js";
+import { type CheckedEntry, checkReply, describeViolations } from "./schema.js";
+
+/** Re-prompts after the first reply. 2 keeps the worst case at 3 calls per column. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+export async function correctWithRepair(
+  corrector: Corrector,
+  transcript: ColumnTranscript,
+  maxRepairs: number = MAX_REPAIR_ATTEMPTS,
+): Promise<CheckedEntry[]> {
+  let reply: unknown[] = await corrector.structure(transcript);
+  let check = checkReply(reply, transcript);
+  for (let attempt = 0; attempt < maxRepairs && !check.ok; attempt++) {
+    reply = await corrector.structure(transcript, {
+      previous: reply,
+      violations: describeViolations(check),
+    });
+    check = checkReply(reply, transcript);
+  }
+  return check.entries;
+}
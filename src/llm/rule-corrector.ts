@@ -0,0 +1,118 @@
+// LLM-free Corrector (profile "rules"). Segments a column with the deterministic
+// layer's own signals instead of a model: a headword line is a short, capitalized,
+// left-margin Latin line followed by Farsi (docs/04 rule 1); <...> spans never
+// start an entry (rule 3); a مثال line is an example appended to the definition
+// (rule 4); page furniture is never cited (rule 10). It corrects NOTHING -- text is
+// copied, garbage Latin on Farsi lines is dropped (rule 7) -- so it is a baseline
+// for the eval harness, a zero-cost offline mode, and a cross-check on LLM
+// segmentation, not a substitute for the correction pass.
+import type { ColumnTranscript, Line } from "../parser/lines.js";
+import { isNoiseLine } from "../parser/noise.js";
+import { isFarsiOnly, isLatinOnly } from "../script.js";
+import { isPosTag } from "../validation/pos.js";
+import { isLikelyHeadwordLine } from "./chunking.js";
+import type { Corrector, CorrectorInfo, CorrectedEntry } from "./corrector.js";
+
+/** Stamped as provenance.prompt_version; bump when the rules change. */
+export const RULES_VERSION = "rules-v2";
+
+/** px right of the column's Latin left margin still counted as "at the margin" */
+const INDENT_TOLERANCE = 40;
+const EXAMPLE_MARKER = "مثال";
+
+interface Draft {
+  lines: number[];
+  headword: string;
+  pos: string | null;
+  fa: string[];
+  def: string[];
+  continuation: boolean;
+}
+
+/** words in the longest tag splitPos() tries ("n. & v.t." is 3) */
+const MAX_POS_WORDS = 4;
+
+/** "Abet n." -> ["Abet", "n."], "Abet n. & v.t." -> ["Abet", "n. & v.t."]; only
+ *  tags in the POS key (validation/pos.ts) are recognized, never guessed. The tag
+ *  is returned as printed; toEntry normalizes it. */
+function splitPos(text: string): [string, string | null] {
+  const words = text.trim().split(/\s+/);
+  for (let k = Math.min(MAX_POS_WORDS, words.length - 1); k >= 1; k--) {
+    const tag = words.slice(-k).join(" ");
+    if (tag.endsWith(".") && isPosTag(tag)) return [words.slice(0, -k).join(" "), tag];
+  }
+  return [text.trim(), null];
+}
+
+/** Farsi words first (as printed), the marker, then the English gloss after it.
+ *  Latin before the marker has no slot (docs/04 F4 "The") and is dropped. */
+function exampleText(line: Line): string {
+  const words = line.words.map((w) => w.text);
+  const at = words.indexOf(EXAMPLE_MARKER);
+  const fa = words.filter((w, i) => i !== at && isFarsiOnly(w));
+  const gloss = words.slice(at + 1).filter((w) => !isFarsiOnly(w));
+  return [...fa, EXAMPLE_MARKER, ...gloss].join(" ");
+}
+
+export class RuleBasedCorrector implements Corrector {
+  readonly info: CorrectorInfo = { profile: "rules", model: "rules", prompt_version: RULES_VERSION };
+
+  async structure(transcript: ColumnTranscript): Promise<CorrectedEntry[]> {
+    const lines = transcript.lines;
+    const margin = Math.min(
+      ...lines.filter((l) => l.script === "latin" && !isNoiseLine(l)).map((l) => l.bbox[0]),
+    );
+    const drafts: Draft[] = [];
+    let current: Draft | null = null;
+    let inCrossRef = false;
+
+    for (const [i, line] of lines.entries()) {
+      if (isNoiseLine(line)) continue;
+      const text = line.text.trim();
+
+      const startsEntry =
+        !inCrossRef &&
+        /^[A-Z]/.test(text) &&
+        line.bbox[0] <= margin + INDENT_TOLERANCE &&
+        isLikelyHeadwordLine(lines, i);
+      if (startsEntry) {
+        const [headword, pos] = splitPos(text);
+        current = { lines: [i], headword, pos, fa: [], def: [], continuation: false };
+        drafts.push(current);
+        continue;
+      }
+      if (!current) {
+        // Anything before the column's first headword runs over from the previous page.
+        current = { lines: [], headword: "", pos: null, fa: [], def: [], continuation: true };
+        drafts.push(current);
+      }
+      current.lines.push(i);
+
+      if (text.includes("<")) inCrossRef = true;
+      if (text.includes(">")) inCrossRef = text.lastIndexOf("<") > text.lastIndexOf(">");
+
+      if (line.words.some((w) => w.text === EXAMPLE_MARKER)) {
+        current.def.push(exampleText(line));
+      } else if (line.script === "farsi") {
+        current.fa.push(text);
+      } else if (line.script === "mixed") {
+        // Latin tokens on a Farsi line are OCR garbage or strays (F5 "jopa hups").
+        const fa = line.words.map((w) => w.text).filter((w) => !isLatinOnly(w));
+        if (fa.length > 0) current.fa.push(fa.join(" "));
+      } else if (line.script === "latin") {
+        current.def.push(text);
+      }
+    }
+
+    return drafts.map((d) => ({
+      headword_en: d.headword,
+      translation_fa: d.fa.join(" "),
+      definition_en: d.def.length > 0 ? d.def.join(" ") : null,
+      pronunciation: null,
+      pos: d.pos,
+      is_continuation: d.continuation,
+      raw_ocr_snippet: d.lines.map((i) => lines[i]?.text ?? "").join(" "),
+      line_indices: d.lines,
+    }));
+  }
+}
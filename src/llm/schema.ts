@@ -0,0 +1,143 @@
+// Reply gate for the corrector (docs/04 §1 contract + rule 1/8/10 invariants). The
+// LLM is a corrector, not an oracle: its JSON is checked here BEFORE toEntry
+// builds anything from it. Zod covers the per-entry shape; the line_indices
+// invariants need the transcript, so they run outside Zod (same split as
+// validation/cross-record.ts).
+import { z } from "zod";
+import type { ColumnTranscript } from "../parser/lines.js";
+import { isNoiseLine } from "../parser/noise.js";
+import type { CorrectedEntry } from "./corrector.js";
+import type { Disagreement } from "./consensus.js";
+
+export const correctedEntrySchema = z.object({
+  headword_en: z.string(),
+  translation_fa: z.string(),
+  definition_en: z.string().nullable(),
+  pronunciation: z.string().nullable(),
+  pos: z.string().nullable(),
+  is_continuation: z.boolean(),
+  raw_ocr_snippet: z.string(),
+  line_indices: z.array(z.number().int().nonnegative()).min(1),
+  // ConsensusCorrector's annotation; passed through untouched so it reaches toEntry
+  disagreement: z.custom<Disagreement>((v) => typeof v === "object" && v !== null).optional(),
+  // ChunkingCorrector's annotation, likewise
+  truncated_at: z.number().int().nonnegative().optional(),
+});
+
+/** One reply entry plus everything wrong with it. An empty violations list means
+ *  the entry passed both the schema and the transcript invariants. */
+export interface CheckedEntry {
+  entry: CorrectedEntry;
+  violations: string[];
+}
+
+export interface ReplyCheck {
+  entries: CheckedEntry[];
+  ok: boolean;
+}
+
+const str = (v: unknown, fallback: string): string => (typeof v === "string" ? v : fallback);
+const strOrNull = (v: unknown): string | null => (typeof v === "string" ? v : null);
+
+/** Best-effort shape for an element that failed the schema, so it can still be
+ *  routed to review instead of vanishing. Never used for entries that parse. */
+function coerceEntry(x: unknown): CorrectedEntry {
+  const o = typeof x === "object" && x !== null ? (x as Record<string, unknown>) : {};
+  const indices = Array.isArray(o.line_indices)
+    ? o.line_indices.filter((i): i is number => Number.isInteger(i))
+    : [];
+  return {
+    headword_en: str(o.headword_en, ""),
+    translation_fa: str(o.translation_fa, ""),
+    definition_en: strOrNull(o.definition_en),
+    pronunciation: strOrNull(o.pronunciation),
+    pos: strOrNull(o.pos),
+    is_continuation: o.is_continuation === true,
+    raw_ocr_snippet: str(o.raw_ocr_snippet, ""),
+    line_indices: indices,
+  };
+}
+
+/** Check a corrector reply against the schema and the transcript:
+ *  - indices in range, strictly ascending, no gaps (except over noise lines);
+ *  - noise lines never cited; no line cited by two entries;
+ *  - raw_ocr_snippet == cited lines' text joined with single spaces. */
+export function checkReply(
+  reply: readonly unknown[],
+  transcript: ColumnTranscript,
+): ReplyCheck {
+  const lines = transcript.lines;
+  const citedBy = new Map<number, number>();
+  const doubleCited: Array<{ owner: number; line: number; by: number }> = [];
+
+  const entries: CheckedEntry[] = reply.map((raw, k) => {
+    const violations: string[] = [];
+    const parsed = correctedEntrySchema.safeParse(raw);
+    let entry: CorrectedEntry;
+    if (parsed.success) {
+      entry = parsed.data;
+    } else {
+      entry = coerceEntry(raw);
+      for (const issue of parsed.error.issues) {
+        violations.push(`schema: ${issue.path.join(".") || "(entry)"}: ${issue.message}`);
+      }
+    }
+
+    const idx = entry.line_indices;
+    for (let j = 0; j < idx.length; j++) {
+      const i = idx[j] ?? 0;
+      const line = lines[i];
+      if (line === undefined) {
+        violations.push(`line ${i} is out of range (transcript has ${lines.length} lines)`);
+        continue;
+      }
+      if (isNoiseLine(line)) {
+        violations.push(`line ${i} ("${line.text}") is a page-number/header line and must not be cited`);
+      }
+      const other = citedBy.get(i);
+      if (other !== undefined) {
+        violations.push(`line ${i} is also cited by entry ${other}`);
+        doubleCited.push({ owner: other, line: i, by: k });
+      } else {
+        citedBy.set(i, k);
+      }
+
+      const prev = idx[j - 1];
+      if (prev === undefined) continue;
+      if (i <= prev) {
+        violations.push(`line_indices not strictly ascending (${prev} then ${i})`);
+      } else {
+        for (let g = prev + 1; g < i; g++) {
+          const skipped = lines[g];
+          if (skipped !== undefined && !isNoiseLine(skipped)) {
+            violations.push(`gap: line ${g} lies between cited lines ${prev} and ${i}`);
+          }
+        }
+      }
+    }
+
+    const expected = idx
+      .map((i) => lines[i]?.text)
+      .filter((t): t is string => t !== undefined)
+      .join(" ");
+    if (entry.raw_ocr_snippet !== expected) {
+      violations.push(
+        `raw_ocr_snippet must be the cited lines' OCR text joined with spaces: expected "${expected}"`,
+      );
+    }
+    return { entry, violations };
+  });
+  // Both sides of a double citation are suspect, not just the later one.
+  for (const { owner, line, by } of doubleCited) {
+    entries[owner]?.violations.push(`line ${line} is also cited by entry ${by}`);
+  }
+
+  return { entries, ok: entries.every((e) => e.violations.length === 0) };
+}
+
+/** Violations as the flat, entry-labelled list that goes back into a re-prompt. */
+export function describeViolations(check: ReplyCheck): string[] {
+  return check.entries.flatMap(({ entry, violations }, k) =>
+    violations.map((v) => `entry ${k} (${entry.headword_en || "continuation"}): ${v}`),
+  );
+}
@@ -0,0 +1,134 @@
+// Token / latency / cost accounting for correction runs, plus a hard budget. One
+// UsageLedger = one run: every completed model call is recorded against its page
+// and column, and before each call the worst-case cost is reserved so a batch
+// stops BEFORE the budget is crossed, not after. Reservations stay held while the
+// call is in flight, so concurrent calls (consensus) can't all pass the check.
+import type { ProfileName, ProfilePricing } from "./config.js";
+
+export interface CallUsage {
+  page_number: number;
+  column: string;
+  profile: ProfileName;
+  model: string;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+  /** true when the provider sent no usage block and tokens were estimated */
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  calls: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+  latency_ms: number;
+  cost_usd: number;
+}
+
+export interface UsageSummary {
+  total: UsageTotals;
+  budget_usd: number | null;
+  by_page: Record<number, UsageTotals>;
+}
+
+/** Thrown by UsageLedger.reserve(); batch runners catch it and stop cleanly. */
+export class BudgetExceededError extends Error {
+  constructor(
+    /** spent plus still reserved by calls in flight */
+    readonly spentUsd: number,
+    readonly requestedUsd: number,
+    readonly budgetUsd: number,
+  ) {
+    super(
+      `correction budget exceeded: spent or reserved $${spentUsd.toFixed(4)} + next call up to ` +
+        `$${requestedUsd.toFixed(4)} > budget $${budgetUsd.toFixed(4)}`,
+    );
+    this.name = "BudgetExceededError";
+  }
+}
+
+export function costUsd(pricing: ProfilePricing, promptTokens: number, completionTokens: number): number {
+  return (
+    (promptTokens * pricing.inputUsdPerMTok + completionTokens * pricing.outputUsdPerMTok) / 1_000_000
+  );
+}
+
+/** Rough pre-call token estimate. Deliberately pessimistic (2 chars/token rather
+ *  than the usual ~4 for English): the transcript is half Farsi, which tokenizes
+ *  far worse, and this number only ever gates the budget. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 2);
+}
+
+function emptyTotals(): UsageTotals {
+  return { calls: 0, prompt_tokens: 0, completion_tokens: 0, latency_ms: 0, cost_usd: 0 };
+}
+
+function add(t: UsageTotals, c: CallUsage): void {
+  t.calls++;
+  t.prompt_tokens += c.prompt_tokens;
+  t.completion_tokens += c.completion_tokens;
+  t.latency_ms += c.latency_ms;
+  t.cost_usd += c.cost_usd;
+}
+
+/** Handle for one reserved call, settled by record() or given back by release(). */
+export type Reservation = number;
+
+export class UsageLedger {
+  readonly calls: CallUsage[] = [];
+  /** worst-case cost of calls reserved but not yet recorded or released */
+  private readonly pending = new Map<Reservation, number>();
+  private nextReservation: Reservation = 0;
+
+  /** budgetUsd = null means unlimited (still recorded). */
+  constructor(readonly budgetUsd: number | null = null) {}
+
+  get spentUsd(): number {
+    return this.calls.reduce((s, c) => s + c.cost_usd, 0);
+  }
+
+  /** Worst case still owed by calls in flight. */
+  get reservedUsd(): number {
+    let total = 0;
+    for (const usd of this.pending.values()) total += usd;
+    return total;
+  }
+
+  /** Call BEFORE a model request with its worst-case cost; throws if it, on top
+   *  of what is spent and what calls in flight may still spend, could push the
+   *  run over budget. Pass the returned handle to record() or release(). */
+  reserve(worstCaseUsd: number): Reservation {
+    if (this.budgetUsd !== null) {
+      const committed = this.spentUsd + this.reservedUsd;
+      if (committed + worstCaseUsd > this.budgetUsd) {
+        throw new BudgetExceededError(committed, worstCaseUsd, this.budgetUsd);
+      }
+    }
+    const id = this.nextReservation++;
+    this.pending.set(id, worstCaseUsd);
+    return id;
+  }
+
+  /** Give a reservation back unspent (the call failed). */
+  release(reservation: Reservation): void {
+    this.pending.delete(reservation);
+  }
+
+  /** Book a completed call, settling its reservation. */
+  record(call: CallUsage, reservation?: Reservation): void {
+    if (reservation !== undefined) this.pending.delete(reservation);
+    this.calls.push(call);
+  }
+
+  summary(): UsageSummary {
+    const total = emptyTotals();
+    const by_page: Record<number, UsageTotals> = {};
+    for (const c of this.calls) {
+      add(total, c);
+      add((by_page[c.page_number] ??= emptyTotals()), c);
+    }
+    return { total, budget_usd: this.budgetUsd, by_page };
+  }
+}
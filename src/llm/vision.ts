@@ -0,0 +1,185 @@
+// Optional vision re-read of low-confidence lines. The corrector only ever sees
+// OCR text; for the tail Vision itself was unsure about (LOW_CONFIDENCE_WORD), crop
+// the line's bbox out of the page scan and ask an image-capable profile to re-read
+// it, OCR text alongside, under the same anti-confabulation rule as docs/04 rule 7.
+// The reading is RECORDED NEXT TO the text correction, never merged into it: the
+// reviewer compares the two, the pipeline doesn't pick.
+import type { Line } from "../parser/lines.js";
+import { type LlmProfile, type ProfileName, ACTIVE_VISION_PROFILE, profileByName } from "./config.js";
+import { type CallContext, type ChatClientOptions, ChatClient } from "./chat.js";
+import { type PromptId, type PromptVersion, ACTIVE_VISION_PROMPT, getPrompt } from "./prompts.js";
+import { LOW_CONFIDENCE_WORD } from "../eval/thresholds.js";
+
+/** A cropped region of the page scan, ready to send. */
+export interface ImageCrop {
+  mime_type: string;
+  data: Buffer;
+}
+
+/** Anything that can crop a page scan by Vision pixel bbox (ocr/png.ts: PngPageImage). */
+export interface PageImage {
+  crop(bbox: [number, number, number, number]): Promise<ImageCrop>;
+}
+
+export interface VisionReading {
+  /** index into the column transcript's lines */
+  line_index: number;
+  bbox: [number, number, number, number];
+  ocr_text: string;
+  ocr_confidence: number | null;
+  /** the model's reading; "" = it found the crop illegible */
+  vision_text: string;
+}
+
+/** One entry's vision pass: who read it and what each low-confidence line says. */
+export interface VisionReread {
+  profile: ProfileName;
+  model: string;
+  prompt_version: string;
+  readings: VisionReading[];
+}
+
+export interface VisionReaderInfo {
+  profile: ProfileName;
+  model: string;
+  prompt_version: PromptId;
+}
+
+export interface VisionReader {
+  readonly info: VisionReaderInfo;
+  /** Text of the line as printed in `crop`; "" if illegible. */
+  reread(crop: ImageCrop, line: Line, context: CallContext): Promise<string>;
+}
+
+export interface HttpVisionReaderOptions extends ChatClientOptions {
+  /** registry id; defaults to ACTIVE_VISION_PROMPT */
+  prompt?: PromptId;
+}
+
+/** Pull {"text": string} out of a reply; tolerates fences/prose like extractJsonArray. */
+export function extractVisionText(reply: string): string {
+  const candidates: string[] = [reply.trim()];
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(reply);
+  if (fenced?.[1] !== undefined) candidates.push(fenced[1].trim());
+  const start = reply.indexOf("{");
+  const end = reply.lastIndexOf("}");
+  if (start !== -1 && end > start) candidates.push(reply.slice(start, end + 1));
+
+  for (const c of candidates) {
+    try {
+      const parsed: unknown = JSON.parse(c);
+      if (typeof parsed === "object" && parsed !== null && typeof (parsed as { text?: unknown }).text === "string") {
+        return (parsed as { text: string }).text;
+      }
+    } catch {
+      // try the next candidate
+    }
+  }
+  throw new Error(`vision reply is not {"text": string}: ${reply.slice(0, 200)}`);
+}
+
+export class HttpVisionReader implements VisionReader {
+  readonly info: VisionReaderInfo;
+  private readonly prompt: PromptVersion;
+  private readonly chat: ChatClient;
+
+  constructor(profile: LlmProfile, options: HttpVisionReaderOptions = {}) {
+    if (!profile.vision) {
+      throw new Error(`LLM profile "${profile.name}" does not accept images (vision: false in config.ts)`);
+    }
+    this.chat = new ChatClient(profile, options);
+    this.prompt = getPrompt(options.prompt ?? ACTIVE_VISION_PROMPT);
+    this.info = { profile: profile.name, model: profile.model, prompt_version: this.prompt.id };
+  }
+
+  async reread(crop: ImageCrop, line: Line, context: CallContext): Promise<string> {
+    const reply = await this.chat.complete(
+      [
+        { role: "system", content: this.prompt.text },
+        {
+          role: "user",
+          content: [
+            { type: "text", text: JSON.stringify({ ocr_text: line.text, script: line.script }) },
+            {
+              type: "image_url",
+              image_url: { url: `data:${crop.mime_type};base64,${crop.data.toString("base64")}` },
+            },
+          ],
+        },
+      ],
+      context,
+    );
+    return extractVisionText(reply);
+  }
+}
+
+export function createVisionReader(
+  profile: LlmProfile = profileByName(ACTIVE_VISION_PROFILE),
+  options: HttpVisionReaderOptions = {},
+): VisionReader {
+  return new HttpVisionReader(profile, options);
+}
+
+/** A line needs a second look when Vision's average for it, or any single word in
+ *  it, is below the threshold -- one bad word hides easily in a good average. */
+export function isLowConfidenceLine(line: Line, threshold: number = LOW_CONFIDENCE_WORD): boolean {
+  if (line.avgConfidence !== null && line.avgConfidence < threshold) return true;
+  return line.words.some((w) => w.confidence !== null && w.confidence < threshold);
+}
+
+/** Thrown by rereadLines() when the page scan can't give a line's crop (an
+ *  undecodable image, a bbox outside it); the parser keeps the entry text-only
+ *  and flags it. Reader and network errors are not wrapped. */
+export class ImageUnavailableError extends Error {
+  constructor(
+    readonly line_index: number,
+    cause: unknown,
+  ) {
+    super(`page image unavailable for line ${line_index}: ${cause instanceof Error ? cause.message : String(cause)}`);
+  }
+}
+
+/** Per-page vision pass: which reader, which scan, and where "low" starts. */
+export interface VisionPass {
+  reader: VisionReader;
+  image: PageImage;
+  /** defaults to LOW_CONFIDENCE_WORD */
+  threshold?: number;
+}
+
+/** Re-read the low-confidence lines among `lineIndices`. `memo` shares readings
+ *  across the entries of one column so a line is paid for once. Returns null when
+ *  no cited line qualifies. */
+export async function rereadLines(
+  pass: VisionPass,
+  lines: readonly Line[],
+  lineIndices: readonly number[],
+  context: CallContext,
+  memo: Map<number, VisionReading> = new Map(),
+): Promise<VisionReread | null> {
+  const readings: VisionReading[] = [];
+  for (const i of lineIndices) {
+    const line = lines[i];
+    if (!line || !isLowConfidenceLine(line, pass.threshold)) continue;
+    let reading = memo.get(i);
+    if (!reading) {
+      let crop: ImageCrop;
+      try {
+        crop = await pass.image.crop(line.bbox);
+      } catch (e) {
+        throw new ImageUnavailableError(i, e);
+      }
+      reading = {
+        line_index: i,
+        bbox: line.bbox,
+        ocr_text: line.text,
+        ocr_confidence: line.avgConfidence,
+        vision_text: await pass.reader.reread(crop, line, context),
+      };
+      memo.set(i, reading);
+    }
+    readings.push(reading);
+  }
+  if (readings.length === 0) return null;
+  return { ...pass.reader.info, readings };
+}
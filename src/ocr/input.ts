@@ -0,0 +1,50 @@
+// OCR input adapters: whatever engine produced a page, the parser sees Word[].
+// Vision JSON (any wrapper, parsed or as a JSON string), Tesseract hOCR and ALTO
+// XML are recognized by shape; a multi-page input yields one Word[] per page.
+import type { Word } from "../parser/columns.js";
+import { isVisionJson, readVisionPages } from "./vision-json.js";
+import { readAltoPages, readHocrPages } from "./xml-ocr.js";
+
+export type OcrFormat = "vision" | "hocr" | "alto";
+
+/** Which adapter reads `raw`; null when none does. */
+export function detectOcrFormat(raw: unknown): OcrFormat | null {
+  if (typeof raw === "string") {
+    const head = raw.trimStart();
+    if (head.startsWith("{")) {
+      try {
+        return detectOcrFormat(JSON.parse(head));
+      } catch {
+        return null;
+      }
+    }
+    if (/<alto[\s>]/i.test(raw)) return "alto";
+    if (/\bocr_page\b|\bocrx_word\b/.test(raw)) return "hocr";
+    return null;
+  }
+  return isVisionJson(raw) ? "vision" : null;
+}
+
+/** One Word[] per page, in document order. */
+export function readOcrPages(raw: unknown): Word[][] {
+  switch (detectOcrFormat(raw)) {
+    case "vision":
+      return readVisionPages(typeof raw === "string" ? JSON.parse(raw) : raw);
+    case "hocr":
+      return readHocrPages(raw as string);
+    case "alto":
+      return readAltoPages(raw as string);
+    default:
+      throw new Error("readOcrPages: unrecognized OCR input (expected Vision JSON, hOCR or ALTO XML)");
+  }
+}
+
+/** The words of a single-page input. A multi-page input must be split with
+ *  readOcrPages() first -- silently merging pages would interleave their lines. */
+export function readOcrWords(raw: unknown): Word[] {
+  const pages = readOcrPages(raw);
+  if (pages.length > 1) {
+    throw new Error(`readOcrWords: input holds ${pages.length} pages; split it with readOcrPages()`);
+  }
+  return pages[0] ?? [];
+}
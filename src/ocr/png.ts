@@ -0,0 +1,210 @@
+// Minimal PNG crop, dependency-free (node:zlib only). Phase 3 captures pages as
+// lossless PNG (guide §6), and the vision re-read pass needs a line-sized crop of
+// the scan -- not worth an image library for that. Supports non-interlaced PNG of
+// every color type at bit depths 1-16; output is always 8 bits per sample.
+import { inflateSync, deflateSync } from "node:zlib";
+import { readFile } from "node:fs/promises";
+
+const SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/** samples per pixel by PNG color type (0 gray, 2 RGB, 3 palette, 4 gray+A, 6 RGBA) */
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  colorType: number;
+  /** 8-bit samples, row-major, no filter bytes */
+  pixels: Buffer;
+  palette: Buffer | null;
+  transparency: Buffer | null;
+}
+
+const CRC_TABLE = (() => {
+  const t = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    t[n] = c >>> 0;
+  }
+  return t;
+})();
+
+function crc32(buf: Buffer): number {
+  let c = 0xffffffff;
+  for (const b of buf) c = (CRC_TABLE[(c ^ b) & 0xff] ?? 0) ^ (c >>> 8);
+  return (c ^ 0xffffffff) >>> 0;
+}
+
+function paeth(a: number, b: number, c: number): number {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+export function decodePng(buf: Buffer): DecodedPng {
+  if (buf.length < 8 || !buf.subarray(0, 8).equals(SIGNATURE)) {
+    throw new Error("decodePng: not a PNG");
+  }
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = -1;
+  let palette: Buffer | null = null;
+  let transparency: Buffer | null = null;
+  const idat: Buffer[] = [];
+
+  for (let off = 8; off + 8 <= buf.length; ) {
+    const len = buf.readUInt32BE(off);
+    const type = buf.toString("latin1", off + 4, off + 8);
+    const data = buf.subarray(off + 8, off + 8 + len);
+    off += 12 + len;
+    if (type === "IHDR") {
+      width = data.readUInt32BE(0);
+      height = data.readUInt32BE(4);
+      bitDepth = data[8] ?? 0;
+      colorType = data[9] ?? -1;
+      if ((data[12] ?? 0) !== 0) throw new Error("decodePng: interlaced PNG not supported");
+    } else if (type === "PLTE") palette = Buffer.from(data);
+    // gray/RGB tRNS keys are in the source bit depth; only palette alpha survives
+    // the 8-bit re-encode unchanged, and a crop for a VLM doesn't need the rest
+    else if (type === "tRNS" && colorType === 3) transparency = Buffer.from(data);
+    else if (type === "IDAT") idat.push(data);
+    else if (type === "IEND") break;
+  }
+  const channels = CHANNELS[colorType];
+  if (channels === undefined || width === 0 || height === 0) {
+    throw new Error(`decodePng: unsupported or missing IHDR (colorType ${colorType})`);
+  }
+
+  const raw = inflateSync(Buffer.concat(idat));
+  const bitsPerPixel = channels * bitDepth;
+  const stride = Math.ceil((width * bitsPerPixel) / 8);
+  const bpp = Math.max(1, bitsPerPixel >> 3); // filter byte distance
+  const pixels = Buffer.alloc(width * height * channels);
+  let prev = Buffer.alloc(stride);
+  const maxSample = (1 << Math.min(bitDepth, 8)) - 1;
+
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    const filter = raw[start] ?? 0;
+    const line = Buffer.from(raw.subarray(start + 1, start + 1 + stride));
+    for (let i = 0; i < stride; i++) {
+      const a = i >= bpp ? (line[i - bpp] ?? 0) : 0;
+      const b = prev[i] ?? 0;
+      const c = i >= bpp ? (prev[i - bpp] ?? 0) : 0;
+      const x = line[i] ?? 0;
+      if (filter === 1) line[i] = (x + a) & 0xff;
+      else if (filter === 2) line[i] = (x + b) & 0xff;
+      else if (filter === 3) line[i] = (x + ((a + b) >> 1)) & 0xff;
+      else if (filter === 4) line[i] = (x + paeth(a, b, c)) & 0xff;
+    }
+    prev = line;
+
+    // expand to 8 bits per sample
+    const row = y * width * channels;
+    for (let s = 0; s < width * channels; s++) {
+      let v: number;
+      if (bitDepth === 8) v = line[s] ?? 0;
+      else if (bitDepth === 16) v = line[s * 2] ?? 0;
+      else {
+        const bit = s * bitDepth;
+        v = ((line[bit >> 3] ?? 0) >> (8 - bitDepth - (bit & 7))) & maxSample;
+        // palette indices stay indices; gray levels scale to 0-255
+        if (colorType !== 3) v = Math.round((v * 255) / maxSample);
+      }
+      pixels[row + s] = v;
+    }
+  }
+  return { width, height, colorType, pixels, palette, transparency };
+}
+
+function chunk(type: string, data: Buffer): Buffer {
+  const head = Buffer.alloc(8);
+  head.writeUInt32BE(data.length, 0);
+  head.write(type, 4, "latin1");
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([head.subarray(4), data])), 0);
+  return Buffer.concat([head, data, crc]);
+}
+
+export function encodePng(img: DecodedPng): Buffer {
+  const channels = CHANNELS[img.colorType] ?? 1;
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(img.width, 0);
+  ihdr.writeUInt32BE(img.height, 4);
+  ihdr[8] = 8;
+  ihdr[9] = img.colorType;
+  const rowBytes = img.width * channels;
+  const raw = Buffer.alloc((rowBytes + 1) * img.height);
+  for (let y = 0; y < img.height; y++) {
+    // filter type 0 (None): crops are small, compression ratio doesn't matter
+    img.pixels.copy(raw, y * (rowBytes + 1) + 1, y * rowBytes, (y + 1) * rowBytes);
+  }
+  return Buffer.concat([
+    SIGNATURE,
+    chunk("IHDR", ihdr),
+    ...(img.palette ? [chunk("PLTE", img.palette)] : []),
+    ...(img.transparency ? [chunk("tRNS", img.transparency)] : []),
+    chunk("IDAT", deflateSync(raw)),
+    chunk("IEND", Buffer.alloc(0)),
+  ]);
+}
+
+/** Crop [x, y, w, h] (pixel coords, clamped to the image) out of a decoded page. */
+export function cropDecoded(
+  img: DecodedPng,
+  [x, y, w, h]: [number, number, number, number],
+): DecodedPng {
+  const channels = CHANNELS[img.colorType] ?? 1;
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(img.width, Math.ceil(x + w));
+  const y1 = Math.min(img.height, Math.ceil(y + h));
+  const width = Math.max(0, x1 - x0);
+  const height = Math.max(0, y1 - y0);
+  if (width === 0 || height === 0) throw new Error(`cropDecoded: empty crop [${x}, ${y}, ${w}, ${h}]`);
+  const pixels = Buffer.alloc(width * height * channels);
+  for (let row = 0; row < height; row++) {
+    const src = ((y0 + row) * img.width + x0) * channels;
+    img.pixels.copy(pixels, row * width * channels, src, src + width * channels);
+  }
+  return { ...img, width, height, pixels };
+}
+
+/** A page scan, decoded on the first crop and held in memory. A scan decodePng
+ *  can't read (interlaced, truncated, not a PNG) fails every crop() with the
+ *  same error, so the vision pass falls back to text only (llm/vision.ts). */
+export class PngPageImage {
+  private img: DecodedPng | Error | null = null;
+
+  private constructor(private readonly png: Buffer) {}
+
+  static fromBuffer(png: Buffer): PngPageImage {
+    return new PngPageImage(png);
+  }
+
+  static async fromFile(path: string): Promise<PngPageImage> {
+    return PngPageImage.fromBuffer(await readFile(path));
+  }
+
+  /** PNG bytes of bbox grown by `pad` px on every side (ascenders, dots and
+   *  descenders routinely fall just outside Vision's word boxes). */
+  async crop(
+    [x, y, w, h]: [number, number, number, number],
+    pad = 8,
+  ): Promise<{ mime_type: "image/png"; data: Buffer }> {
+    if (this.img === null) {
+      try {
+        this.img = decodePng(this.png);
+      } catch (e) {
+        this.img = e instanceof Error ? e : new Error(String(e));
+      }
+    }
+    if (this.img instanceof Error) throw this.img;
+    const box: [number, number, number, number] = [x - pad, y - pad, w + 2 * pad, h + 2 * pad];
+    return { mime_type: "image/png", data: encodePng(cropDecoded(this.img, box)) };
+  }
+}
@@ -0,0 +1,121 @@
+// Google Cloud Vision DOCUMENT_TEXT_DETECTION -> Word[]. The annotation arrives in
+// several wrappers (v1's extract-text.ts): a raw API response with responses[],
+// the annotation under fullTextAnnotation, or the bare annotation {pages, text}.
+// Batch / PDF output nests responses again (files:annotate -> responses[] of
+// responses[]), one per page. All are unwrapped here to one word list per page.
+import {
+  type BreakType,
+  type Word,
+  type WordSymbol,
+  bboxFromVertices,
+} from "../parser/columns.js";
+
+// --- Minimal view of the verified Vision DOCUMENT_TEXT_DETECTION shape ---
+// Confirmed against v1-old/data/output/05.json: top-level {pages, text};
+// pages[].blocks[].paragraphs[].words[].symbols[]; word text = concat symbols text;
+// bbox = boundingBox.vertices (pixel); languageCode under property.detectedLanguages;
+// spacing / line ends under symbols[].property.detectedBreak (A4: often null).
+interface RawVertex { x?: number; y?: number }
+interface RawBoundingBox { vertices?: RawVertex[] }
+interface RawDetectedBreak { type?: string; isPrefix?: boolean }
+interface RawSymbol {
+  text?: string;
+  confidence?: number;
+  boundingBox?: RawBoundingBox;
+  property?: { detectedBreak?: RawDetectedBreak | null } | null;
+}
+interface RawDetectedLanguage { languageCode?: string }
+interface RawWordProperty { detectedLanguages?: RawDetectedLanguage[] }
+interface RawWord {
+  symbols?: RawSymbol[];
+  boundingBox?: RawBoundingBox;
+  confidence?: number;
+  property?: RawWordProperty | null;
+}
+interface RawParagraph { words?: RawWord[] }
+interface RawBlock { paragraphs?: RawParagraph[] }
+interface RawPage { blocks?: RawBlock[] }
+interface RawVision { pages?: RawPage[]; text?: string }
+interface RawResponse {
+  responses?: unknown[];
+  fullTextAnnotation?: RawVision | null;
+  error?: { message?: string } | null;
+  pages?: RawPage[];
+}
+
+const isObject = (x: unknown): x is RawResponse => typeof x === "object" && x !== null;
+
+const NOT_VISION = "not Vision JSON (no responses[], fullTextAnnotation or pages[])";
+
+/** True for any of the wrappers unwrapVision() understands. */
+export function isVisionJson(x: unknown): boolean {
+  return (
+    isObject(x) &&
+    (Array.isArray(x.responses) || isObject(x.fullTextAnnotation) || Array.isArray(x.pages))
+  );
+}
+
+/** The pages inside any Vision wrapper, in order. A response without an
+ *  annotation is a page Vision found no text on -- kept, empty, so page order
+ *  holds; a response carrying an error is thrown. */
+function unwrapVision(x: unknown): RawPage[] {
+  if (!isObject(x)) return [];
+  if (x.error) throw new Error(`Vision response error: ${x.error.message ?? "unknown"}`);
+  if (Array.isArray(x.responses)) return x.responses.flatMap(unwrapVision);
+  if (isObject(x.fullTextAnnotation)) return x.fullTextAnnotation.pages ?? [];
+  if (Array.isArray(x.pages)) return x.pages;
+  return [{}];
+}
+
+const BREAK_TYPES: readonly string[] = ["UNKNOWN", "SPACE", "SURE_SPACE", "EOL_SURE_SPACE", "HYPHEN", "LINE_BREAK"];
+
+function readBreak(s: RawSymbol): BreakType | null {
+  const b = s.property?.detectedBreak;
+  if (!b || b.isPrefix === true || !BREAK_TYPES.includes(b.type ?? "")) return null;
+  return b.type as BreakType;
+}
+
+function readPage(page: RawPage): Word[] {
+  const words: Word[] = [];
+  for (const block of page.blocks ?? []) {
+    for (const para of block.paragraphs ?? []) {
+      for (const w of para.words ?? []) {
+        const symbols: WordSymbol[] = (w.symbols ?? []).map((s) => ({
+          text: s.text ?? "",
+          confidence: typeof s.confidence === "number" ? s.confidence : null,
+          bbox: bboxFromVertices(s.boundingBox?.vertices),
+          break: readBreak(s),
+        }));
+        const text = symbols.map((s) => s.text).join("");
+        if (text.length === 0) continue;
+        words.push({
+          text,
+          bbox: bboxFromVertices(w.boundingBox?.vertices),
+          languageCode: w.property?.detectedLanguages?.[0]?.languageCode ?? null,
+          confidence: typeof w.confidence === "number" ? w.confidence : null,
+          symbols,
+          break: symbols.at(-1)?.break ?? null,
+        });
+      }
+    }
+  }
+  return words;
+}
+
+/** One Word[] per page, across every wrapper and response. Blocks are walked only
+ *  to reach words; block segmentation is deliberately discarded (blocks !=
+ *  entries, docs 2). */
+export function readVisionPages(raw: unknown): Word[][] {
+  if (!isVisionJson(raw)) {
+    throw new Error(`readVisionPages: ${NOT_VISION}`);
+  }
+  return unwrapVision(raw).map(readPage);
+}
+
+/** Read raw Vision JSON into flat normalized Words -- every page of the input. */
+export function readVisionWords(raw: unknown): Word[] {
+  if (!isVisionJson(raw)) {
+    throw new Error(`readVisionWords: ${NOT_VISION}`);
+  }
+  return readVisionPages(raw).flat();
+}
@@ -0,0 +1,169 @@
+// Tesseract hOCR and ALTO XML -> Word[], so another engine's output runs through
+// the same parser as Vision's and engines can be compared offline page for page.
+// Both formats are read with a small tag scanner rather than an XML library: only
+// a handful of elements and attributes matter, and hOCR is HTML (void tags,
+// entities) that a strict XML parser would reject anyway.
+//
+// Both formats group words into lines, which Vision expresses as detectedBreak;
+// the readers translate that back: a word ending a line gets EOL_SURE_SPACE,
+// an ALTO <HYP> HYPHEN, every other word SPACE. Neither carries per-symbol boxes
+// here, so Word.symbols stays unset.
+import type { BreakType, Word } from "../parser/columns.js";
+
+interface Tag {
+  kind: "open" | "close" | "text";
+  /** lower-cased element name ("" for text) */
+  name: string;
+  attrs: Record<string, string>;
+  /** <x/> or an HTML void element: no matching close follows */
+  empty: boolean;
+  /** decoded character data (text nodes only) */
+  text: string;
+}
+
+const VOID_ELEMENTS = new Set(["br", "hr", "img", "input", "link", "meta", "area", "base", "col", "wbr"]);
+
+function decodeEntities(s: string): string {
+  return s.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp);/gi, (_m, e: string) => {
+    const lower = e.toLowerCase();
+    if (lower.startsWith("#x")) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith("#")) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " }[lower] ?? "";
+  });
+}
+
+function* scanTags(xml: string): Generator<Tag> {
+  const token = /<!--[\s\S]*?-->|<\?[\s\S]*?\?>|<!\[CDATA\[([\s\S]*?)\]\]>|<![^>]*>|<(\/?)([\w:.-]+)([^>]*?)(\/?)>|([^<]+)/g;
+  for (let m = token.exec(xml); m; m = token.exec(xml)) {
+    const [, cdata, slash, name, rest, selfClose, text] = m;
+    if (cdata !== undefined) {
+      yield { kind: "text", name: "", attrs: {}, empty: true, text: cdata };
+    } else if (text !== undefined) {
+      yield { kind: "text", name: "", attrs: {}, empty: true, text: decodeEntities(text) };
+    } else if (name !== undefined) {
+      const lower = name.toLowerCase().replace(/^.*:/, "");
+      const attrs: Record<string, string> = {};
+      for (const a of (rest ?? "").matchAll(/([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g)) {
+        attrs[(a[1] ?? "").toLowerCase().replace(/^.*:/, "")] = decodeEntities(a[2] ?? a[3] ?? "");
+      }
+      yield {
+        kind: slash ? "close" : "open",
+        name: lower,
+        attrs,
+        empty: selfClose === "/" || VOID_ELEMENTS.has(lower),
+        text: "",
+      };
+    }
+  }
+}
+
+/** Mark the last word of a finished line with the break that ended it. */
+function endLine(line: Word[], kind: BreakType): void {
+  const last = line.at(-1);
+  if (last && last.break !== "HYPHEN") last.break = kind;
+}
+
+// ---------- hOCR ----------
+
+const HOCR_LINES = new Set(["ocr_line", "ocrx_line", "ocr_header", "ocr_caption", "ocr_textfloat"]);
+
+/** hOCR title properties: `bbox 36 92 96 116; x_wconf 95`. */
+function titleProps(title: string): Map<string, string> {
+  const props = new Map<string, string>();
+  for (const part of title.split(";")) {
+    const t = part.trim();
+    const i = t.indexOf(" ");
+    if (i > 0) props.set(t.slice(0, i), t.slice(i + 1).trim());
+  }
+  return props;
+}
+
+/** One Word[] per ocr_page of a Tesseract hOCR document. */
+export function readHocrPages(html: string): Word[][] {
+  const pages: Word[][] = [];
+  let line: Word[] = [];
+  // open elements: class list + lang, to find the enclosing line / word / language
+  const stack: Array<{ name: string; classes: string[]; lang: string | null }> = [];
+  let word: { box: [number, number, number, number]; conf: number | null; lang: string | null; text: string; depth: number } | null = null;
+
+  for (const tag of scanTags(html)) {
+    if (tag.kind === "text") {
+      if (word) word.text += tag.text;
+      continue;
+    }
+    if (tag.kind === "open") {
+      const classes = (tag.attrs["class"] ?? "").split(/\s+/).filter(Boolean);
+      const lang = tag.attrs["lang"] ?? stack.at(-1)?.lang ?? null;
+      if (classes.includes("ocr_page")) pages.push([]);
+      if (classes.some((c) => HOCR_LINES.has(c))) line = [];
+      if (classes.includes("ocrx_word")) {
+        const props = titleProps(tag.attrs["title"] ?? "");
+        const [x0 = 0, y0 = 0, x1 = 0, y1 = 0] = (props.get("bbox") ?? "").split(/\s+/).map(Number);
+        const conf = props.has("x_wconf") ? Number(props.get("x_wconf")) / 100 : null;
+        word = { box: [x0, y0, x1 - x0, y1 - y0], conf, lang, text: "", depth: stack.length };
+      }
+      if (!tag.empty) stack.push({ name: tag.name, classes, lang });
+      continue;
+    }
+    // close: pop to the matching element (tolerates unclosed HTML)
+    const at = stack.map((e) => e.name).lastIndexOf(tag.name);
+    if (at < 0) continue;
+    const closed = stack.splice(at);
+    if (word && stack.length <= word.depth) {
+      const text = word.text.trim();
+      if (text.length > 0) {
+        if (pages.length === 0) pages.push([]);
+        const w: Word = { text, bbox: word.box, languageCode: word.lang, confidence: word.conf, break: "SPACE" };
+        pages.at(-1)!.push(w);
+        line.push(w);
+      }
+      word = null;
+    }
+    if (closed.some((e) => e.classes.some((c) => HOCR_LINES.has(c)))) {
+      endLine(line, "EOL_SURE_SPACE");
+      line = [];
+    }
+  }
+  return pages;
+}
+
+// ---------- ALTO ----------
+
+/** One Word[] per <Page> of an ALTO document (pixel coordinates only). */
+export function readAltoPages(xml: string): Word[][] {
+  const unit = /<MeasurementUnit>\s*([^<\s]+)\s*<\/MeasurementUnit>/i.exec(xml)?.[1];
+  if (unit !== undefined && unit.toLowerCase() !== "pixel") {
+    throw new Error(`readAltoPages: MeasurementUnit "${unit}" is not supported (pixel only)`);
+  }
+  const pages: Word[][] = [];
+  let line: Word[] = [];
+  for (const tag of scanTags(xml)) {
+    if (tag.kind === "text") continue;
+    if (tag.kind === "close") {
+      if (tag.name === "textline") endLine(line, "EOL_SURE_SPACE");
+      continue;
+    }
+    const a = tag.attrs;
+    if (tag.name === "page") pages.push([]);
+    else if (tag.name === "textline") line = [];
+    else if (tag.name === "hyp") {
+      const last = line.at(-1);
+      if (last) last.break = "HYPHEN";
+    } else if (tag.name === "string") {
+      const text = (a["content"] ?? "").trim();
+      if (text.length === 0) continue;
+      if (pages.length === 0) pages.push([]);
+      const num = (k: string): number => Number(a[k] ?? 0);
+      const w: Word = {
+        text,
+        bbox: [num("hpos"), num("vpos"), num("width"), num("height")],
+        languageCode: a["lang"] ?? null,
+        confidence: a["wc"] !== undefined ? Number(a["wc"]) : null,
+        break: "SPACE",
+      };
+      pages.at(-1)!.push(w);
+      line.push(w);
+    }
+  }
+  return pages;
+}
@@ -0,0 +1,95 @@
+// Script runs of a line (docs/04 rule 5, deterministic half). A mixed line -- an
+// example with its English gloss, a Latin stray inside Farsi -- comes out of line
+// grouping in visual left-to-right order, which reads correctly for neither
+// script. segmentLine() cuts it into runs of one script by word bbox and orders
+// them logically, a word-level subset of the Unicode bidi algorithm (UAX #9):
+//
+//   - each word is Farsi (strong R), Latin (strong L) or neutral (digits,
+//     punctuation, brackets);
+//   - the line's base direction is its majority script (ties: LTR);
+//   - a neutral between two words of the same script takes that script,
+//     otherwise the base direction's (line edges count as the base);
+//   - runs are read right-to-left on an RTL line, left-to-right on an LTR one;
+//     inside a run, Farsi words right-to-left, Latin words left-to-right.
+//
+// Line.text stays in its grouping order: raw_ocr_snippet cites it verbatim.
+import { type Word, layoutBox, unionBbox } from "./columns.js";
+import { isFarsiOnly, isLatinOnly } from "../script.js";
+
+export type SegmentScript = "latin" | "farsi" | "neutral";
+export type Direction = "ltr" | "rtl";
+
+export interface ScriptSegment {
+  /** "neutral" only when the whole line has no Latin or Farsi word */
+  script: SegmentScript;
+  direction: Direction;
+  /** the run's words in logical order, joined by a space */
+  text: string;
+  /** indices into the words segmentLine() was given (Line.words), logical order */
+  word_indices: number[];
+  /** union of the run's original word boxes */
+  bbox: [number, number, number, number];
+}
+
+function wordScript(w: Word): SegmentScript {
+  if (isFarsiOnly(w.text)) return "farsi";
+  if (isLatinOnly(w.text)) return "latin";
+  return "neutral";
+}
+
+/** Majority script's direction; LTR on a tie or with no strong word. */
+export function baseDirection(words: readonly Word[]): Direction {
+  let farsi = 0;
+  let latin = 0;
+  for (const w of words) {
+    const s = wordScript(w);
+    if (s === "farsi") farsi++;
+    else if (s === "latin") latin++;
+  }
+  return farsi > latin ? "rtl" : "ltr";
+}
+
+/** Script runs of one line's words, in logical reading order. */
+export function segmentLine(words: readonly Word[]): ScriptSegment[] {
+  if (words.length === 0) return [];
+  const base = baseDirection(words);
+  const baseScript: SegmentScript = base === "rtl" ? "farsi" : "latin";
+  const visual = words.map((_w, i) => i).sort((a, b) => layoutBox(words[a]!)[0] - layoutBox(words[b]!)[0]);
+  const raw = visual.map((i) => wordScript(words[i]!));
+  if (raw.every((s) => s === "neutral")) {
+    return [makeSegment(words, "neutral", visual)];
+  }
+
+  // neutrals take the script of strong neighbours that agree, else the base's
+  const strong = (from: number, step: 1 | -1): SegmentScript => {
+    for (let k = from; k >= 0 && k < raw.length; k += step) if (raw[k] !== "neutral") return raw[k]!;
+    return baseScript;
+  };
+  const resolved = raw.map((s, k) => {
+    if (s !== "neutral") return s;
+    const before = strong(k - 1, -1);
+    return before === strong(k + 1, 1) ? before : baseScript;
+  });
+
+  // visual runs, left to right
+  const runs: Array<{ script: SegmentScript; members: number[] }> = [];
+  resolved.forEach((s, k) => {
+    const last = runs.at(-1);
+    if (last && last.script === s) last.members.push(visual[k]!);
+    else runs.push({ script: s, members: [visual[k]!] });
+  });
+  if (base === "rtl") runs.reverse();
+  return runs.map((r) =>
+    makeSegment(words, r.script, r.script === "farsi" ? [...r.members].reverse() : r.members),
+  );
+}
+
+function makeSegment(words: readonly Word[], script: SegmentScript, order: number[]): ScriptSegment {
+  return {
+    script,
+    direction: script === "farsi" ? "rtl" : "ltr",
+    text: order.map((i) => words[i]!.text).join(" "),
+    word_indices: order,
+    bbox: unionBbox(order.map((i) => words[i]!.bbox)),
+  };
+}
@@ -1,7 +1,21 @@
 // Deterministic column + geometry logic (docs 5 steps 1-2). Implementable straight
 // from the guide's coordinates + the verified Vision shape; no LLM. Blocks are
 // ignored entirely -- we reconstruct from words + coordinates.
-import type { Column } from "../types.js";
+
+/** Vision's TextAnnotation.DetectedBreak.BreakType. */
+export type BreakType = "UNKNOWN" | "SPACE" | "SURE_SPACE" | "EOL_SURE_SPACE" | "HYPHEN" | "LINE_BREAK";
+
+/** Breaks after which Vision starts a new line. */
+export const LINE_END_BREAKS: ReadonlySet<BreakType> = new Set(["EOL_SURE_SPACE", "HYPHEN", "LINE_BREAK"]);
+
+/** One Vision symbol (character). */
+export interface WordSymbol {
+  text: string;
+  confidence: number | null;
+  bbox: [number, number, number, number];
+  /** break AFTER this symbol; prefix breaks are not kept */
+  break: BreakType | null;
+}
 
 /** Internal normalized word. Built from raw Vision JSON by the parser.
  *  languageCode is a WEAK hint only (Vision mis-tags English) -- separation is by
@@ -13,6 +27,26 @@ export interface Word {
   bbox: [number, number, number, number];
   languageCode: string | null;
   confidence: number | null;
+  /** bbox in the deskewed/flattened page frame (./geometry.ts). Clustering uses
+   *  it when present; bbox stays the source-image truth. */
+  rect?: [number, number, number, number] | undefined;
+  /** per-symbol detail, when the source has it */
+  symbols?: WordSymbol[] | undefined;
+  /** break after the word (its last symbol's); null = none reported (glued to the
+   *  next word), undefined = the source carries no break data */
+  break?: BreakType | null | undefined;
+}
+
+/** Lowest symbol confidence -- one misread dot in an otherwise clean word shows
+ *  here, not in the word average. Falls back to the word confidence. */
+export function minConfidence(w: Word): number | null {
+  const cs = (w.symbols ?? []).map((s) => s.confidence).filter((c): c is number => c !== null);
+  return cs.length > 0 ? Math.min(...cs) : w.confidence;
+}
+
+/** The box to cluster on: rectified when the page was rectified, raw otherwise. */
+export function layoutBox(w: Word): [number, number, number, number] {
+  return w.rect ?? w.bbox;
 }
 
 export interface Vertex {
@@ -55,10 +89,12 @@ export function unionBbox(
 // when dynamic detection can't find a confident gap.
 export const FALLBACK_COLUMN_SPLIT_X = 1100;
 
-const leftEdge = (w: Word): number => w.bbox[0];
+const leftEdge = (w: Word): number => layoutBox(w)[0];
 
-/** Detect the two-column gutter for one page: the largest gap between consecutive
- *  word left-edges whose midpoint falls in the central band of the page's x-range.
+/** Two-column special case; buildColumnTranscripts uses layout.ts detectLayout
+ *  (0..N gutters). Detect the two-column gutter for one page: the largest gap
+ *  between consecutive word left-edges whose midpoint falls in the central band
+ *  of the page's x-range.
  *  Central-band constraint avoids picking a wide margin gap; robust to per-page
  *  horizontal shift. Falls back to FALLBACK_COLUMN_SPLIT_X if no confident gap. */
 export function detectColumnSplitX(words: Word[], minGap = 20): number {
@@ -85,20 +121,136 @@ export function detectColumnSplitX(words: Word[], minGap = 20): number {
   return bestGap >= minGap ? bestSplit : FALLBACK_COLUMN_SPLIT_X;
 }
 
-export function assignColumn(word: Word, splitX: number): Column {
-  return word.bbox[0] < splitX ? "left" : "right";
+/** The strip between two neighbouring columns: words left of `from` are in the
+ *  left column's extent, right of `to` in the right one's. layout.ts Gutters are
+ *  boundaries; a bare split x is the boundary { x, from: x, to: x }. */
+export interface ColumnBoundary {
+  x: number;
+  from: number;
+  to: number;
+}
+
+/** A word the gutter made ambiguous. "split": Vision glued words from both sides
+ *  into one, cut apart at the symbol gap over the gutter; "straddle": crosses the
+ *  gutter but can't be cut (no symbols, or no gap), kept whole where it overlaps
+ *  most; "in_gutter": lies inside the strip, given to the nearer column. */
+export interface GutterConflict {
+  kind: "split" | "straddle" | "in_gutter";
+  text: string;
+  bbox: [number, number, number, number];
+  /** column index(es) the word -- or its parts, left to right -- went to */
+  columns: number[];
+}
+
+export interface ColumnAssignment {
+  /** one array per column, left to right, words in input order */
+  columns: Word[][];
+  conflicts: GutterConflict[];
 }
 
-/** Split words into columns. splitX defaults to the per-page detected gutter. */
-export function splitColumns(
-  words: Word[],
-  splitX: number = detectColumnSplitX(words),
-): Record<Column, Word[]> {
-  const left: Word[] = [];
-  const right: Word[] = [];
+/** Smallest blank between two symbols of one Vision word for it to be read as
+ *  two words glued across the gutter. */
+export const MIN_GLUE_GAP_PX = 15;
+
+/** x-extent of column i, between its neighbouring boundaries. */
+function extent(boundaries: readonly ColumnBoundary[], i: number): [number, number] {
+  return [boundaries[i - 1]?.to ?? -Infinity, boundaries[i]?.from ?? Infinity];
+}
+
+/** The word's symbols as two parts, cut at the blank over boundary `b`; null when
+ *  there is no such blank. Parts keep the word's rectification offset. */
+function cutAt(w: Word, b: ColumnBoundary): [Word, Word] | null {
+  const symbols = w.symbols ?? [];
+  const [dx, dy] = w.rect ? [w.rect[0] - w.bbox[0], w.rect[1] - w.bbox[1]] : [0, 0];
+  const mid = (b.from + b.to) / 2;
+  const centre = (s: WordSymbol): number => s.bbox[0] + dx + s.bbox[2] / 2;
+  const left = symbols.filter((s) => centre(s) < mid);
+  const right = symbols.filter((s) => centre(s) >= mid);
+  if (left.length === 0 || right.length === 0) return null;
+  const leftEnd = Math.max(...left.map((s) => s.bbox[0] + s.bbox[2]));
+  const rightStart = Math.min(...right.map((s) => s.bbox[0]));
+  if (rightStart - leftEnd < MIN_GLUE_GAP_PX) return null;
+  const part = (ss: WordSymbol[]): Word => {
+    const bbox = unionBbox(ss.map((s) => s.bbox));
+    const confs = ss.map((s) => s.confidence).filter((c): c is number => c !== null);
+    return {
+      ...w,
+      text: ss.map((s) => s.text).join(""),
+      bbox,
+      rect: w.rect ? [bbox[0] + dx, bbox[1] + dy, bbox[2], bbox[3]] : undefined,
+      confidence: confs.length > 0 ? confs.reduce((t, c) => t + c, 0) / confs.length : w.confidence,
+      symbols: ss,
+      break: ss.at(-1)?.break ?? null,
+    };
+  };
+  return [part(left), part(right)];
+}
+
+/** Assign words to the columns between `boundaries` (left to right) by how much of
+ *  each word's box overlaps each column's extent, not by its left edge alone. */
+export function assignToColumns(words: Word[], boundaries: readonly ColumnBoundary[]): ColumnAssignment {
+  const columns: Word[][] = Array.from({ length: boundaries.length + 1 }, () => []);
+  const conflicts: GutterConflict[] = [];
+  const overlaps = (w: Word): number[] => {
+    const [x, , width] = layoutBox(w);
+    return columns.map((_c, i) => {
+      const [lo, hi] = extent(boundaries, i);
+      return Math.max(0, Math.min(x + Math.max(width, 1), hi) - Math.max(x, lo));
+    });
+  };
+  const most = (o: number[]): number => o.indexOf(Math.max(...o));
+
   for (const w of words) {
-    if (assignColumn(w, splitX) === "left") left.push(w);
-    else right.push(w);
+    const o = overlaps(w);
+    const spanned = o.flatMap((v, i) => (v > 0 ? [i] : []));
+    if (spanned.length === 1) {
+      columns[spanned[0]!]!.push(w);
+      continue;
+    }
+    if (spanned.length === 0) {
+      // inside a strip: the nearer of the two columns it separates
+      const [x, , width] = layoutBox(w);
+      const i = Math.max(0, boundaries.findIndex((b) => x >= b.from && x + width <= b.to));
+      const b = boundaries[i]!;
+      const col = x + width / 2 - b.from <= b.to - (x + width / 2) ? i : i + 1;
+      columns[col]!.push(w);
+      conflicts.push({ kind: "in_gutter", text: w.text, bbox: w.bbox, columns: [col] });
+      continue;
+    }
+    const cut = cutAt(w, boundaries[spanned[0]!]!);
+    if (cut) {
+      const cols = cut.map((part) => {
+        const col = most(overlaps(part));
+        columns[col]!.push(part);
+        return col;
+      });
+      conflicts.push({ kind: "split", text: w.text, bbox: w.bbox, columns: cols });
+      continue;
+    }
+    const col = most(o);
+    columns[col]!.push(w);
+    conflicts.push({ kind: "straddle", text: w.text, bbox: w.bbox, columns: [col] });
   }
-  return { left, right };
-}
\ No newline at end of file
+  return { columns, conflicts };
+}
+
+/** Column of a single word against one split x, by overlap (no splitting). */
+export function assignColumn(word: Word, splitX: number): "left" | "right" {
+  const [x, , w] = layoutBox(word);
+  return splitX - x >= x + w - splitX ? "left" : "right";
+}
+
+export interface ColumnSplit {
+  left: Word[];
+  right: Word[];
+  /** straddling / glued words (see assignToColumns) */
+  conflicts: GutterConflict[];
+}
+
+/** Split words into two columns. splitX defaults to the per-page detected gutter.
+ *  Words Vision glued across it are cut in two, so left + right can exceed the
+ *  input by the number of "split" conflicts. */
+export function splitColumns(words: Word[], splitX: number = detectColumnSplitX(words)): ColumnSplit {
+  const { columns, conflicts } = assignToColumns(words, [{ x: splitX, from: splitX, to: splitX }]);
+  return { left: columns[0] ?? [], right: columns[1] ?? [], conflicts };
+}
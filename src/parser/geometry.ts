@@ -0,0 +1,132 @@
+// Page geometry (docs 5, before steps 1-2). Column split and line grouping work on
+// raw pixel coordinates, which assumes the scan is square to the page. A page a
+// degree or two off-axis drifts ~35px per 1000px -- enough to merge neighbouring
+// lines or split one in two -- and a page bowed near the spine curves its lines.
+//
+// estimatePageGeometry() measures both from the words themselves: every pair of
+// horizontally adjacent words on one line gives a local baseline slope. The median
+// slope is the page rotation; what's left after de-rotating, regressed against x,
+// is a quadratic baseline bow. rectifyWords() then gives each word a `rect` bbox in
+// that corrected frame. Clustering reads `rect`; the original `bbox` is untouched
+// and is what reaches source_image and image crops.
+import type { Word } from "./columns.js";
+
+/** Below this the page is treated as square; the words get no `rect`. */
+export const MIN_SKEW_DEG = 0.1;
+/** Below this much baseline bow across the page the curve is ignored. */
+export const MIN_CURVE_PX = 3;
+/** Fewer adjacent-word pairs than this is too little evidence to correct anything. */
+const MIN_PAIRS = 10;
+/** Local slopes steeper than this (~6 deg) are mismatched pairs, not baselines. */
+const MAX_PAIR_SLOPE = 0.1;
+
+export interface PageGeometry {
+  /** page rotation, degrees; positive = lines fall to the right */
+  angle_deg: number;
+  /** rotation centre, pixels */
+  center: [number, number];
+  /** baseline bow after de-rotation: dy = a*u^2 + b*u with u = x - center x; null = flat */
+  curve: { a: number; b: number } | null;
+  /** adjacent-word pairs the estimate rests on */
+  pairs: number;
+}
+
+export const IDENTITY_GEOMETRY: PageGeometry = { angle_deg: 0, center: [0, 0], curve: null, pairs: 0 };
+
+const cx = (b: [number, number, number, number]): number => b[0] + b[2] / 2;
+const cy = (b: [number, number, number, number]): number => b[1] + b[3] / 2;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const s = [...values].sort((a, b) => a - b);
+  return s[Math.floor(s.length / 2)] ?? 0;
+}
+
+interface Pair {
+  /** midpoint x, slope dy/dx between centres */
+  x: number;
+  slope: number;
+}
+
+/** Each word paired with its nearest right-hand neighbour on the same line: similar
+ *  height (no diacritic fragments), a word-space gap, centres within half a height. */
+function adjacentPairs(boxes: Array<[number, number, number, number]>): Pair[] {
+  const pairs: Pair[] = [];
+  for (const a of boxes) {
+    let best: [number, number, number, number] | null = null;
+    for (const b of boxes) {
+      const dx = cx(b) - cx(a);
+      const h = Math.min(a[3], b[3]);
+      if (dx < h || Math.max(a[3], b[3]) > 1.5 * h) continue;
+      const gap = b[0] - (a[0] + a[2]);
+      if (gap < -0.5 * h || gap > 2 * h) continue;
+      if (Math.abs(cy(b) - cy(a)) > 0.5 * h) continue;
+      if (!best || dx < cx(best) - cx(a)) best = b;
+    }
+    if (best) pairs.push({ x: (cx(a) + cx(best)) / 2, slope: (cy(best) - cy(a)) / (cx(best) - cx(a)) });
+  }
+  return pairs.filter((p) => Math.abs(p.slope) <= MAX_PAIR_SLOPE);
+}
+
+function rotate(
+  [x, y]: [number, number],
+  [ox, oy]: [number, number],
+  theta: number,
+): [number, number] {
+  const c = Math.cos(theta);
+  const s = Math.sin(theta);
+  return [ox + (x - ox) * c + (y - oy) * s, oy - (x - ox) * s + (y - oy) * c];
+}
+
+/** Rotation + optional quadratic bow, estimated from word boxes alone. */
+export function estimatePageGeometry(words: Word[]): PageGeometry {
+  const boxes = words.map((w) => w.bbox).filter((b) => b[2] > 0 && b[3] > 0);
+  const pairs = adjacentPairs(boxes);
+  if (pairs.length < MIN_PAIRS) return { ...IDENTITY_GEOMETRY, pairs: pairs.length };
+
+  const xs = boxes.flatMap((b) => [b[0], b[0] + b[2]]);
+  const ys = boxes.flatMap((b) => [b[1], b[1] + b[3]]);
+  const center: [number, number] = [
+    (Math.min(...xs) + Math.max(...xs)) / 2,
+    (Math.min(...ys) + Math.max(...ys)) / 2,
+  ];
+  const theta = Math.atan(median(pairs.map((p) => p.slope)));
+
+  // Residual slope after de-rotation is the bow's derivative: s(u) = 2a*u + b.
+  // Least squares on pairs near the median; mismatched pairs are already gone.
+  const residual = pairs.map((p) => ({ u: p.x - center[0], s: Math.tan(Math.atan(p.slope) - theta) }));
+  const n = residual.length;
+  const mu = residual.reduce((t, r) => t + r.u, 0) / n;
+  const ms = residual.reduce((t, r) => t + r.s, 0) / n;
+  const suu = residual.reduce((t, r) => t + (r.u - mu) ** 2, 0);
+  const sus = residual.reduce((t, r) => t + (r.u - mu) * (r.s - ms), 0);
+  const slope2a = suu > 0 ? sus / suu : 0;
+  const a = slope2a / 2;
+  const b = ms - slope2a * mu;
+  const halfWidth = (Math.max(...xs) - Math.min(...xs)) / 2;
+  const bow = Math.max(...[-halfWidth, 0, halfWidth].map((u) => Math.abs(a * u * u + b * u)));
+
+  return {
+    angle_deg: (theta * 180) / Math.PI,
+    center,
+    curve: bow >= MIN_CURVE_PX ? { a, b } : null,
+    pairs: pairs.length,
+  };
+}
+
+/** Words with `rect` set to their box in the rectified frame (centre moved, size
+ *  kept -- fine at a few degrees). A page within MIN_SKEW_DEG and without a curve
+ *  comes back unchanged, so straight scans produce exactly the old transcripts. */
+export function rectifyWords(words: Word[], geometry: PageGeometry = estimatePageGeometry(words)): Word[] {
+  if (Math.abs(geometry.angle_deg) < MIN_SKEW_DEG && geometry.curve === null) return words;
+  const theta = (geometry.angle_deg * Math.PI) / 180;
+  return words.map((w) => {
+    const [x, y, width, height] = w.bbox;
+    let [px, py] = rotate([x + width / 2, y + height / 2], geometry.center, theta);
+    if (geometry.curve) {
+      const u = px - geometry.center[0];
+      py -= geometry.curve.a * u * u + geometry.curve.b * u;
+    }
+    return { ...w, rect: [px - width / 2, py - height / 2, width, height] };
+  });
+}
@@ -0,0 +1,183 @@
+// Page layout: 0..N column gutters (generalizes docs 5 step 1). The body pages are
+// two columns, but front matter, the POS key, appendices and some section-start
+// pages are one column or more than two. A gutter is a vertical strip that (almost)
+// no word box covers, running between content on both sides; it's read off the
+// page's x-coverage histogram, so nothing assumes where or how many there are.
+//
+// An empty strip alone is not enough: inside one column, English lines hug the
+// left margin and Farsi lines the right, which can leave a clear strip between
+// them. Two real columns run side by side -- most text rows have words on BOTH
+// sides -- whereas the two halves of one column alternate row by row.
+//
+// The split x inside each strip is the midpoint of the surrounding gap between
+// word LEFT edges -- the same rule detectColumnSplitX was verified with on pages
+// 05-07 (docs/03). Words are assigned by overlap with the columns either side of
+// the strip, so the few that cross it (glued neighbours, a wide Farsi phrase) are
+// resolved and reported instead of going wherever their left edge points.
+import type { Column } from "../types.js";
+import { type ColumnAssignment, type Word, assignToColumns, layoutBox } from "./columns.js";
+
+/** Narrowest strip accepted as a gutter (px). */
+export const MIN_GUTTER_PX = 15;
+/** A column must hold at least this share of the page's words... */
+const MIN_COLUMN_SHARE = 0.05;
+/** ...and its words must span at least this share of the content height, so a
+ *  centred running header or a short title line never becomes a column. */
+const MIN_COLUMN_HEIGHT = 0.25;
+/** Share of the sparser side's words that must have a word beside them on the other. */
+const MIN_ROW_OVERLAP = 0.5;
+const BIN_PX = 5;
+
+export interface Gutter {
+  /** split x (docs/03 rule); assignment itself goes by the strip */
+  x: number;
+  /** the empty strip itself, px */
+  from: number;
+  to: number;
+  /** words overlapping the strip (headers, glued words) */
+  crossing: number;
+  /** 0..1: strip width and emptiness (row overlap is judged separately) */
+  score: number;
+}
+
+export interface PageLayout {
+  /** left to right; columns = gutters.length + 1 */
+  gutters: Gutter[];
+  columns: number;
+  /** 0..1: weakest accepted gutter (emptiness x side-by-side rows), or for a
+   *  single column how clearly no gutter exists */
+  confidence: number;
+}
+
+/** "left"/"right" on two-column pages (the labels docs/04 and the cassettes use),
+ *  "full" on a single-column page, "col1".."colN" otherwise. */
+export function columnLabel(index: number, count: number): Column {
+  if (count === 1) return "full";
+  if (count === 2) return index === 0 ? "left" : "right";
+  return `col${index + 1}`;
+}
+
+/** Index of the column a word falls in, by overlap with the column extents (a
+ *  glued word is not cut here; see resolveColumns). */
+export function columnIndexOf(word: Word, layout: PageLayout): number {
+  return resolveColumns([{ ...word, symbols: undefined }], layout).columns.findIndex((c) => c.length > 0);
+}
+
+function gutterScore(width: number, crossing: number, words: number): number {
+  const wide = Math.min(1, width / (2 * MIN_GUTTER_PX));
+  const empty = 1 - Math.min(1, crossing / Math.max(1, 0.01 * words));
+  return wide * empty;
+}
+
+/** Candidate strips: runs of bins covered by at most `tolerance` words, strictly
+ *  inside the content's x-extent. */
+function candidateStrips(words: Word[]): Gutter[] {
+  const boxes = words.map(layoutBox);
+  const x0 = Math.min(...boxes.map((b) => b[0]));
+  const x1 = Math.max(...boxes.map((b) => b[0] + b[2]));
+  const bins = Math.max(1, Math.ceil((x1 - x0) / BIN_PX));
+  const delta = new Array<number>(bins + 1).fill(0);
+  for (const [x, , w] of boxes) {
+    const a = Math.floor((x - x0) / BIN_PX);
+    const b = Math.min(bins, Math.ceil((x + w - x0) / BIN_PX));
+    delta[a] = (delta[a] ?? 0) + 1;
+    delta[b] = (delta[b] ?? 0) - 1;
+  }
+  // a handful of words may cross a real gutter (running header, glued words)
+  const tolerance = Math.round(0.005 * words.length);
+  const coverage: number[] = [];
+  let run = 0;
+  for (let i = 0; i < bins; i++) coverage.push((run += delta[i] ?? 0));
+
+  const lefts = boxes.map((b) => b[0]).sort((a, b) => a - b);
+  const strips: Gutter[] = [];
+  for (let i = 0; i < bins; ) {
+    if ((coverage[i] ?? 0) > tolerance) {
+      i++;
+      continue;
+    }
+    let j = i;
+    let crossing = 0;
+    while (j < bins && (coverage[j] ?? 0) <= tolerance) crossing = Math.max(crossing, coverage[j++] ?? 0);
+    const from = x0 + i * BIN_PX;
+    const to = x0 + j * BIN_PX;
+    if (i > 0 && j < bins && to - from >= MIN_GUTTER_PX) {
+      const before = lefts.filter((x) => x < from).at(-1) ?? from;
+      const after = lefts.find((x) => x >= to) ?? to;
+      strips.push({ x: (before + after) / 2, from, to, crossing, score: gutterScore(to - from, crossing, words.length) });
+    }
+    i = j;
+  }
+  return strips;
+}
+
+/** Share of the sparser column's words that have a word beside them -- vertically
+ *  overlapping -- in the other column. */
+function rowOverlap(a: Word[], b: Word[]): number {
+  const [small, large] = a.length <= b.length ? [a, b] : [b, a];
+  if (small.length === 0) return 0;
+  const spans = large.map((w) => [layoutBox(w)[1], layoutBox(w)[1] + layoutBox(w)[3]] as const);
+  const beside = small.filter((w) => {
+    const [, y, , h] = layoutBox(w);
+    return spans.some(([top, bottom]) => top < y + h && y < bottom);
+  });
+  return beside.length / small.length;
+}
+
+interface Assessment {
+  ok: boolean;
+  /** score x row overlap: how much this looks like a real gutter */
+  merit: number;
+}
+
+/** Judge every gutter against the columns it currently separates. */
+function assess(words: Word[], gutters: Gutter[]): Assessment[] {
+  const ys = words.map((w) => layoutBox(w)[1]);
+  const height = Math.max(1, Math.max(...ys) - Math.min(...ys));
+  const cols = splitByLayout(words, { gutters, columns: gutters.length + 1, confidence: 0 });
+  const sized = cols.map((col) => {
+    if (col.length < MIN_COLUMN_SHARE * words.length) return false;
+    const cy = col.map((w) => layoutBox(w)[1]);
+    return Math.max(...cy) - Math.min(...cy) >= MIN_COLUMN_HEIGHT * height;
+  });
+  return gutters.map((g, i) => {
+    const overlap = rowOverlap(cols[i] ?? [], cols[i + 1] ?? []);
+    const ok = (sized[i] ?? false) && (sized[i + 1] ?? false) && overlap >= MIN_ROW_OVERLAP;
+    return { ok, merit: g.score * overlap };
+  });
+}
+
+/** Find the page's gutters. While any gutter leaves an implausible column on
+ *  either side, the least gutter-like of the failing ones is dropped and the rest
+ *  re-judged (dropping one merges two columns, which changes its neighbours). */
+export function detectLayout(words: Word[]): PageLayout {
+  if (words.length < 2) return { gutters: [], columns: 1, confidence: 0 };
+  const candidates = candidateStrips(words);
+  let gutters = [...candidates];
+  let verdicts = assess(words, gutters);
+  while (verdicts.some((v) => !v.ok)) {
+    let worst = -1;
+    verdicts.forEach((v, i) => {
+      if (!v.ok && (worst === -1 || v.merit < (verdicts[worst]?.merit ?? Infinity))) worst = i;
+    });
+    gutters = gutters.filter((_g, i) => i !== worst);
+    verdicts = assess(words, gutters);
+  }
+  const rejected = candidates.filter((c) => !gutters.includes(c));
+  const confidence =
+    gutters.length > 0
+      ? Math.min(...verdicts.map((v) => v.merit))
+      : 1 - Math.max(0, ...rejected.map((g) => g.score));
+  return { gutters, columns: gutters.length + 1, confidence };
+}
+
+/** Words per column plus the gutter conflicts met on the way (columns.ts
+ *  assignToColumns): straddlers by overlap, glued words cut apart. */
+export function resolveColumns(words: Word[], layout: PageLayout): ColumnAssignment {
+  return assignToColumns(words, layout.gutters);
+}
+
+/** Words per column, left to right; always `layout.columns` arrays. */
+export function splitByLayout(words: Word[], layout: PageLayout): Word[][] {
+  return resolveColumns(words, layout).columns;
+}
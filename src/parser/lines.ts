@@ -3,31 +3,72 @@
 // script-tagged. This reading-ordered, script-tagged transcript is what the LLM
 // consumes to segment entries and slot fields -- the LLM does the "residue"
 // (headword vs runover vs cross-ref vs example), not this code (docs 3).
+//
+// Box centres are a poor line key on this print: Farsi letters reach far above
+// and below the line, Vision emits stray dots and harakat as tiny "words", and
+// tight English definition lines overlap. So clustering is two-pass on estimated
+// BASELINES: per-script metrics first (height, descender depth), a greedy pass
+// over baselines, then every word re-assigned to the nearest line baseline.
+// Fragments sit out both passes and join their nearest host word's line.
 import type { Column } from "../types.js";
-import { type Word, unionBbox } from "./columns.js";
+import { type Word, LINE_END_BREAKS, layoutBox, minConfidence, unionBbox } from "./columns.js";
 import { isFarsiOnly, isLatinOnly } from "../script.js";
+import { type ScriptSegment, segmentLine } from "./bidi.js";
+import type { NoiseKind } from "./noise.js";
 
 export type LineScript = "latin" | "farsi" | "mixed" | "other";
 
 export interface Line {
-  /** words joined by a space, in reading order (RTL for pure-Farsi lines) */
+  /** words joined by a space, in reading order (RTL for pure-Farsi lines; a mixed
+   *  line stays left-to-right -- see segments) */
   text: string;
   script: LineScript;
+  /** top edge in the rectified frame -- the reading-order key (== bbox[1] on a
+   *  page that needed no rectification) */
   yTop: number;
+  /** union of the words' ORIGINAL bboxes */
   bbox: [number, number, number, number];
   avgConfidence: number | null;
+  /** lowest symbol confidence on the line (columns.ts minConfidence) */
+  minConfidence: number | null;
   words: Word[];
+  /** script runs in logical order (./bidi.ts); one run unless the line is mixed */
+  segments: ScriptSegment[];
+  /** page furniture (header, page number, ...), set by markPageFurniture; null = content */
+  noise: NoiseKind | null;
+  /** 0..1: how cleanly the words share one baseline, without side-by-side
+   *  overlaps; below MIN_LINE_QUALITY the grouping is suspect */
+  quality: number;
 }
 
 export interface ColumnTranscript {
   page_number: number;
   column: Column;
+  /** 0-based, left to right (parser/layout.ts) */
+  column_index: number;
   lines: Line[];
 }
 
-const yCenter = (w: Word): number => w.bbox[1] + w.bbox[3] / 2;
-const height = (w: Word): number => w.bbox[3];
-const minX = (w: Word): number => w.bbox[0];
+// Geometry is read from the rectified box (./geometry.ts) when there is one.
+const yCenter = (w: Word): number => layoutBox(w)[1] + layoutBox(w)[3] / 2;
+const height = (w: Word): number => layoutBox(w)[3];
+const minX = (w: Word): number => layoutBox(w)[0];
+
+/** Furthest apart (in median word heights) two words Vision puts on one line may
+ *  sit and still be merged into one line. */
+const SAME_LINE_REACH = 0.75;
+
+/** Lines scoring below this are suspect groupings (entries citing them need review). */
+export const MIN_LINE_QUALITY = 0.6;
+
+/** Share of the median word height under which a small box is a fragment. */
+const FRAGMENT_SHARE = 0.45;
+/** Arabic harakat, superscript alef, and dots Vision may emit on their own. */
+const MARKS_ONLY = /^[\u064B-\u065F\u0670.\u00B7\u06D4]+$/u;
+/** Latin letters that descend below the baseline. */
+const LATIN_DESCENDERS = /[gjpqy,;]/;
+/** Farsi letters whose FINAL form descends (initial / medial forms sit on the line). */
+const FARSI_FINAL_DESCENDERS = new Set([..."رزژوینعغجچحخمقلصضسشي"]);
 
 function median(values: number[]): number {
   if (values.length === 0) return 0;
@@ -48,7 +89,74 @@ function classifyScript(words: Word[]): LineScript {
   return "other";
 }
 
-function makeLine(words: Word[]): Line {
+type MetricScript = "latin" | "farsi" | "other";
+
+const metricScript = (w: Word): MetricScript =>
+  isFarsiOnly(w.text) ? "farsi" : isLatinOnly(w.text) ? "latin" : "other";
+
+function descends(w: Word): boolean {
+  const s = metricScript(w);
+  if (s === "latin") return LATIN_DESCENDERS.test(w.text);
+  if (s === "farsi") return FARSI_FINAL_DESCENDERS.has(w.text.replace(/[^\u0600-\u06FF]/g, "").at(-1) ?? "");
+  return false;
+}
+
+/** Per-script line metrics: body height (words without descenders) and how far
+ *  descending words reach below the baseline. */
+interface ScriptMetrics {
+  height: number;
+  descent: number;
+}
+
+function scriptMetrics(words: Word[]): Record<MetricScript, ScriptMetrics> {
+  const all = median(words.map(height));
+  const of = (s: MetricScript): ScriptMetrics => {
+    const own = words.filter((w) => metricScript(w) === s);
+    const flat = own.filter((w) => !descends(w)).map(height);
+    const deep = own.filter(descends).map(height);
+    const body = flat.length > 0 ? median(flat) : own.length > 0 ? median(own.map(height)) : all;
+    return { height: body, descent: flat.length > 0 && deep.length > 0 ? Math.max(0, median(deep) - body) : 0 };
+  };
+  return { latin: of("latin"), farsi: of("farsi"), other: of("other") };
+}
+
+const baselineOf = (w: Word, m: Record<MetricScript, ScriptMetrics>): number =>
+  layoutBox(w)[1] + height(w) - (descends(w) ? m[metricScript(w)].descent : 0);
+
+/** Tiny boxes (stray dots, harakat, a lone period) are placed by their host word,
+ *  not by their own y. */
+function isFragment(w: Word, typical: number): boolean {
+  if (MARKS_ONLY.test(w.text)) return true;
+  const [, , width, h] = layoutBox(w);
+  return h < FRAGMENT_SHARE * typical && width < typical;
+}
+
+/** Box-to-box distance (0 when they touch or overlap). */
+function gap(a: Word, b: Word): number {
+  const [ax, ay, aw, ah] = layoutBox(a);
+  const [bx, by, bw, bh] = layoutBox(b);
+  const dx = Math.max(0, bx - (ax + aw), ax - (bx + bw));
+  const dy = Math.max(0, by - (ay + ah), ay - (by + bh));
+  return Math.hypot(dx, dy);
+}
+
+/** Baseline fit x side-by-side separation: the members' mean baseline deviation
+ *  against the tolerance, halved when two words of the line overlap horizontally
+ *  (two lines' words merged into one). */
+function lineQuality(words: Word[], baselines: number[], tol: number): number {
+  if (baselines.length === 0) return 1;
+  const mid = median(baselines);
+  const dev = baselines.reduce((t, b) => t + Math.abs(b - mid), 0) / baselines.length;
+  const fit = 1 - Math.min(1, dev / tol);
+  const boxes = words.map(layoutBox).sort((a, b) => a[0] - b[0]);
+  const overlapping = boxes.some((b, i) => {
+    const next = boxes[i + 1];
+    return next !== undefined && next[0] < b[0] + b[2] - 0.5 * Math.min(b[2], next[2]);
+  });
+  return fit * (overlapping ? 0.5 : 1);
+}
+
+function makeLine(words: Word[], quality = 1): Line {
   const script = classifyScript(words);
   // Pure-Farsi lines read right-to-left; everything else left-to-right.
   const ordered = [...words].sort((a, b) =>
@@ -61,38 +169,140 @@ function makeLine(words: Word[]): Line {
     confidences.length > 0
       ? confidences.reduce((s, c) => s + c, 0) / confidences.length
       : null;
+  const mins = ordered.map(minConfidence).filter((c): c is number => c !== null);
   const bbox = unionBbox(ordered.map((w) => w.bbox));
   return {
     text: ordered.map((w) => w.text).join(" "),
     script,
-    yTop: bbox[1],
+    yTop: Math.min(...ordered.map((w) => layoutBox(w)[1])),
     bbox,
     avgConfidence,
+    minConfidence: mins.length > 0 ? Math.min(...mins) : null,
     words: ordered,
+    segments: segmentLine(ordered),
+    noise: null,
+    quality,
   };
 }
 
-/** Cluster a single column's words into lines by Y proximity, then order by yTop. */
+/** Vision puts consecutive words on one line when nothing line-ending separates them. */
+const sameVisionLine = (w: Word): boolean => w.break !== undefined && (w.break === null || !LINE_END_BREAKS.has(w.break));
+
+/** Vision reports a line-end hyphen (break HYPHEN). The hyphen itself may or may
+ *  not be a symbol of the word. */
+function hyphenHead(line: Line): Word | null {
+  const last = line.script === "farsi" ? undefined : line.words.at(-1);
+  return last && last.break === "HYPHEN" && isLatinOnly(last.text) ? last : null;
+}
+
+function joinHyphenated(head: Word, tail: Word): Word {
+  const symbols = [...(head.symbols ?? [])];
+  if (symbols.at(-1)?.text === "-") symbols.pop();
+  const confs = [head.confidence, tail.confidence].filter((c): c is number => c !== null);
+  return {
+    ...head,
+    text: head.text.replace(/-$/, "") + tail.text,
+    confidence: confs.length > 0 ? Math.min(...confs) : null,
+    symbols: [...symbols, ...(tail.symbols ?? [])],
+    break: tail.break,
+  };
+}
+
+/** English words hyphenated across a line end, rejoined onto the first line. The
+ *  joined word keeps the head's box; the tail leaves the next line (a line left
+ *  empty is dropped). */
+function rejoinHyphenated(lines: Line[]): Line[] {
+  const out = [...lines];
+  for (let i = 0; i + 1 < out.length; i++) {
+    const line = out[i]!;
+    const next = out[i + 1]!;
+    const head = hyphenHead(line);
+    const tail = next.script === "farsi" ? undefined : next.words[0];
+    if (!head || !tail || !isLatinOnly(tail.text) || !/^[a-z]/.test(tail.text)) continue;
+    out[i] = makeLine([...line.words.slice(0, -1), joinHyphenated(head, tail)], line.quality);
+    const rest = next.words.slice(1);
+    if (rest.length > 0) out[i + 1] = makeLine(rest, next.quality);
+    else out.splice(i + 1, 1);
+  }
+  return out;
+}
+
+/** Cluster a single column's words into lines, then order by yTop (see the top
+ *  of this file). Vision's break types refine the clusters where the source has
+ *  them: two clusters a fraction of a line apart that Vision reads as ONE line are
+ *  merged (docs/03: a definition line split on a y-gap), and line-end hyphens are
+ *  rejoined. `words` must be in Vision order for the former. */
 export function groupIntoLines(words: Word[]): Line[] {
   if (words.length === 0) return [];
-  const sorted = [...words].sort((a, b) => yCenter(a) - yCenter(b));
-  const tol = Math.max(6, median(sorted.map(height)) * 0.5);
+  const typical = median(words.map(height));
+  const fragments = words.filter((w) => isFragment(w, typical));
+  const body = fragments.length < words.length ? words.filter((w) => !fragments.includes(w)) : words;
+  const loose = body === words ? [] : fragments;
+  const metrics = scriptMetrics(body);
+  const base = new Map(body.map((w) => [w, baselineOf(w, metrics)]));
+  const tolOf = (w: Word): number => Math.max(6, 0.5 * metrics[metricScript(w)].height);
+  const tol = Math.max(6, 0.5 * median(body.map(height)));
 
-  const groups: Word[][] = [];
-  let current: Word[] = [];
-  let currentY = Number.NaN;
+  // pass 1: greedy over baselines
+  const sorted = [...body].sort((a, b) => base.get(a)! - base.get(b)!);
+  const seeds: number[] = [];
+  let current: number[] = [];
   for (const w of sorted) {
-    const y = yCenter(w);
-    if (current.length === 0 || Math.abs(y - currentY) <= tol) {
-      current.push(w);
-      currentY = current.reduce((s, x) => s + yCenter(x), 0) / current.length;
-    } else {
-      groups.push(current);
-      current = [w];
-      currentY = y;
+    const b = base.get(w)!;
+    const mean = current.reduce((t, x) => t + x, 0) / current.length;
+    if (current.length > 0 && Math.abs(b - mean) > tolOf(w)) {
+      seeds.push(median(current));
+      current = [];
     }
+    current.push(b);
   }
-  if (current.length > 0) groups.push(current);
+  seeds.push(median(current));
 
-  return groups.map(makeLine).sort((a, b) => a.yTop - b.yTop);
+  // pass 2: every word to the nearest line baseline (overlapping lines come apart
+  // here: their boxes interleave, their baselines don't)
+  let groups: Word[][] = seeds.map(() => []);
+  for (const w of body) {
+    const b = base.get(w)!;
+    let best = 0;
+    seeds.forEach((s, i) => {
+      if (Math.abs(b - s) < Math.abs(b - seeds[best]!)) best = i;
+    });
+    groups[best]!.push(w);
+  }
+  groups = groups.filter((g) => g.length > 0);
+
+  // union groups that Vision joins; each group points at the one it merged into
+  const groupOf = new Map<Word, number>();
+  groups.forEach((g, i) => g.forEach((w) => groupOf.set(w, i)));
+  const parent = groups.map((_g, i) => i);
+  const root = (i: number): number => (parent[i] === i ? i : (parent[i] = root(parent[i]!)));
+  const inBody = words.filter((w) => groupOf.has(w));
+  for (let i = 0; i + 1 < inBody.length; i++) {
+    const a = inBody[i]!;
+    const b = inBody[i + 1]!;
+    if (!sameVisionLine(a) || Math.abs(base.get(a)! - base.get(b)!) > SAME_LINE_REACH * typical) continue;
+    const [ga, gb] = [root(groupOf.get(a)!), root(groupOf.get(b)!)];
+    if (ga !== gb) parent[Math.max(ga, gb)] = Math.min(ga, gb);
+  }
+  const merged = new Map<number, Word[]>();
+  groups.forEach((g, i) => merged.set(root(i), [...(merged.get(root(i)) ?? []), ...g]));
+
+  // fragments join their nearest host's line (kept as words: the text is Vision's)
+  const lines = [...merged.values()];
+  const lineOf = new Map<Word, Word[]>();
+  for (const l of lines) for (const w of l) lineOf.set(w, l);
+  for (const f of loose) {
+    let host: Word | undefined;
+    for (const w of body) if (!host || gap(f, w) < gap(f, host)) host = w;
+    lineOf.get(host!)!.push(f);
+  }
+
+  return rejoinHyphenated(
+    lines
+      .map((l) => {
+        const members = l.filter((w) => base.has(w));
+        return makeLine(l, lineQuality(members, members.map((w) => base.get(w)!), tol));
+      })
+      .sort((a, b) => a.yTop - b.yTop),
+  );
 }
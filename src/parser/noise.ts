@@ -0,0 +1,139 @@
+// Page-furniture lines (docs/04 rule 10): page numbers and running headers such as
+// ", 7", "A,7", "6/A" and the lone section letter "A". They are not entries and not
+// parts of entries, so a corrector reply must never cite them.
+//
+// markPageFurniture() is the deterministic stage that removes them BEFORE the
+// corrector: classified by pattern and by position in the page's y-range, marked
+// on Line.noise, and read for the printed page number + section letter, which are
+// cross-checked against the page number the scan was filed under.
+import type { Column } from "../types.js";
+import type { ColumnTranscript, Line } from "./lines.js";
+
+export const NOISE_LINE_PATTERNS: readonly RegExp[] = [
+  /^,\s*\d+$/, // ", 7"
+  /^[A-Z]\s*,\s*\d+$/, // "A,7"
+  /^\d+\s*\/\s*[A-Z]$/, // "6/A"
+  /^[A-Z]$/, // lone section letter "A"
+];
+
+export function isNoiseText(text: string): boolean {
+  const t = text.trim();
+  return NOISE_LINE_PATTERNS.some((re) => re.test(t));
+}
+
+export type NoiseKind = "header" | "footer" | "page_number" | "section_letter";
+
+/** Marked by markPageFurniture, or matching a rule-10 pattern (hand-built and
+ *  golden-fixture transcripts carry no marks). */
+export function isNoiseLine(line: Line): boolean {
+  return (line.noise ?? null) !== null || isNoiseText(line.text);
+}
+
+/** Top/bottom share of the page's content height where headers and footers live. */
+export const PAGE_MARGIN_BAND = 0.06;
+
+const DIGITS = /[0-9۰-۹٠-٩]+/;
+const PAGE_NUMBER_ONLY = /^,?\s*[0-9۰-۹٠-٩]+$/; // ", 7" / "7" / "۷"
+const LETTER_THEN_NUMBER = /^([A-Z])\s*,\s*([0-9۰-۹٠-٩]+)$/; // "A,7"
+const NUMBER_THEN_LETTER = /^([0-9۰-۹٠-٩]+)\s*\/\s*([A-Z])$/; // "6/A"
+const LONE_LETTER = /^([A-Z])$/;
+
+/** Persian / Arabic-Indic digits read as ASCII. */
+function toInt(digits: string): number {
+  return Number(
+    digits.replace(/[۰-۹٠-٩]/g, (d) => String((d.codePointAt(0) ?? 0) & 0xf)),
+  );
+}
+
+export interface FurnitureLine {
+  column: Column;
+  kind: NoiseKind;
+  text: string;
+  bbox: [number, number, number, number];
+}
+
+export interface PageMeta {
+  /** the number the scan was filed under (SourceImage.page_number) */
+  page_number: number;
+  /** as printed on the page; null if no page-number line was found */
+  printed_page_number: number | null;
+  /** running-header / section-start letter; null if none was found */
+  section_letter: string | null;
+  page_number_check: "match" | "mismatch" | "absent";
+  /** every line removed before correction */
+  furniture: FurnitureLine[];
+}
+
+type Zone = "top" | "bottom" | "body";
+
+interface Reading {
+  kind: NoiseKind;
+  number: number | null;
+  letter: string | null;
+}
+
+/** Pattern + zone -> furniture reading, or null for content. The distinctive
+ *  header forms ("A,7", "6/A", a lone capital) count anywhere -- a lone "A" also
+ *  opens a section mid-page; a bare number only in the top/bottom band, where it
+ *  can't be part of an entry. */
+function classify(text: string, zone: Zone): Reading | null {
+  const t = text.trim();
+  const edge: NoiseKind = zone === "bottom" ? "footer" : "header";
+  let m = LETTER_THEN_NUMBER.exec(t);
+  if (m) return { kind: edge, number: toInt(m[2] ?? ""), letter: m[1] ?? null };
+  m = NUMBER_THEN_LETTER.exec(t);
+  if (m) return { kind: edge, number: toInt(m[1] ?? ""), letter: m[2] ?? null };
+  m = LONE_LETTER.exec(t);
+  if (m) return { kind: "section_letter", number: null, letter: m[1] ?? null };
+  if (PAGE_NUMBER_ONLY.test(t) && (zone !== "body" || t.startsWith(","))) {
+    return { kind: "page_number", number: toInt(DIGITS.exec(t)?.[0] ?? ""), letter: null };
+  }
+  return null;
+}
+
+function mostCommon<T>(values: T[]): T | null {
+  const counts = new Map<T, number>();
+  for (const v of values) counts.set(v, (counts.get(v) ?? 0) + 1);
+  let best: T | null = null;
+  let n = 0;
+  for (const [v, c] of counts) if (c > n) [best, n] = [v, c];
+  return best;
+}
+
+/** Mark furniture on every transcript line (Line.noise) and read the page
+ *  metadata off it. Transcripts are marked in place; see withoutNoise(). */
+export function markPageFurniture(transcripts: ColumnTranscript[], pageNumber: number): PageMeta {
+  const all = transcripts.flatMap((t) => t.lines);
+  const top = Math.min(...all.map((l) => l.yTop));
+  const bottom = Math.max(...all.map((l) => l.yTop + l.bbox[3]));
+  const band = PAGE_MARGIN_BAND * Math.max(0, bottom - top);
+
+  const furniture: FurnitureLine[] = [];
+  const numbers: number[] = [];
+  const letters: string[] = [];
+  for (const t of transcripts) {
+    for (const line of t.lines) {
+      const zone: Zone =
+        line.yTop <= top + band ? "top" : line.yTop + line.bbox[3] >= bottom - band ? "bottom" : "body";
+      const r = classify(line.text, zone);
+      line.noise = r?.kind ?? null;
+      if (!r) continue;
+      furniture.push({ column: t.column, kind: r.kind, text: line.text, bbox: line.bbox });
+      if (r.number !== null) numbers.push(r.number);
+      if (r.letter !== null) letters.push(r.letter);
+    }
+  }
+  const printed = mostCommon(numbers);
+  return {
+    page_number: pageNumber,
+    printed_page_number: printed,
+    section_letter: mostCommon(letters),
+    page_number_check: printed === null ? "absent" : printed === pageNumber ? "match" : "mismatch",
+    furniture,
+  };
+}
+
+/** The transcript the corrector sees: furniture lines removed. */
+export function withoutNoise(t: ColumnTranscript): ColumnTranscript {
+  return { ...t, lines: t.lines.filter((l) => !isNoiseLine(l)) };
+}
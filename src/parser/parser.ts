@@ -1,86 +1,82 @@
 // Phase-2 parser (docs 5). Deterministic pipeline is fully implemented here:
-//   raw Vision JSON -> Words -> column split -> line grouping (Y) -> script tags.
+//   raw OCR (../ocr/input.ts) -> Words -> column split -> line grouping (Y) -> script tags.
 // The only pending piece is the injected Corrector (llm/corrector.ts), whose model
 // is undecided (docs 13.4) -- it segments the transcript into entries and corrects
 // OCR. buildColumnTranscripts() is independently testable WITHOUT any LLM.
-import type { Entry } from "../types.js";
-import { type Word, bboxFromVertices, splitColumns, unionBbox } from "./columns.js";
-import { type ColumnTranscript, groupIntoLines } from "./lines.js";
-import type { Corrector, CorrectedEntry } from "../llm/corrector.js";
-import { normalizeFa } from "../validation/normalize.js";
-import { insertEntrySchema } from "../db/schema.js";
+import type { Entry, Provenance, ReviewCode } from "../types.js";
+import { type GutterConflict, unionBbox } from "./columns.js";
+import { type ColumnTranscript, MIN_LINE_QUALITY, groupIntoLines } from "./lines.js";
+import { rectifyWords } from "./geometry.js";
+import { columnLabel, detectLayout, resolveColumns } from "./layout.js";
+import { type PageMeta, markPageFurniture, withoutNoise } from "./noise.js";
+import { type Corrector, newRunId } from "../llm/corrector.js";
+import { MAX_REPAIR_ATTEMPTS, correctWithRepair } from "../llm/repair.js";
+import { ChunkingCorrector } from "../llm/chunking.js";
+import { BudgetExceededError } from "../llm/usage.js";
 import {
-  farsiFieldSchema,
-  englishHeadwordSchema,
-  looksSuspiciousFa,
-} from "../validation/refinements.js";
-import { LOW_CONFIDENCE_WORD } from "../eval/thresholds.js";
+  type PageImage,
+  type VisionPass,
+  type VisionReader,
+  type VisionReading,
+  ImageUnavailableError,
+  rereadLines,
+} from "../llm/vision.js";
+import type { CheckedEntry } from "../llm/schema.js";
+import { normalizeFa, normalizeFaSearch } from "../validation/normalize.js";
+import { normalizePos } from "../validation/pos.js";
+import { extractCrossRefs, resolveCrossRefs } from "../validation/cross-refs.js";
+import { type RunoverLink, stitchRunovers } from "./stitch.js";
+import { countReviewReasons, flagForReview, reviewEntry } from "../validation/entry.js";
+import {
+  type BatchFinding,
+  type ColumnCitations,
+  attachFindings,
+  validateBatch,
+} from "../validation/cross-record.js";
+import { readOcrWords } from "../ocr/input.js";
+import { sortKey } from "../collation.js";
 
-// --- Minimal view of the verified Vision DOCUMENT_TEXT_DETECTION shape ---
-// Confirmed against v1-old/data/output/05.json: top-level {pages, text};
-// pages[].blocks[].paragraphs[].words[].symbols[]; word text = concat symbols text;
-// bbox = boundingBox.vertices (pixel); languageCode under property.detectedLanguages.
-interface RawVertex { x?: number; y?: number }
-interface RawBoundingBox { vertices?: RawVertex[] }
-interface RawSymbol { text?: string }
-interface RawDetectedLanguage { languageCode?: string }
-interface RawWordProperty { detectedLanguages?: RawDetectedLanguage[] }
-interface RawWord {
-  symbols?: RawSymbol[];
-  boundingBox?: RawBoundingBox;
-  confidence?: number;
-  property?: RawWordProperty | null;
+export interface BuiltPage {
+  /** what the corrector sees: one per detected column, furniture lines removed */
+  transcripts: ColumnTranscript[];
+  meta: PageMeta;
+  /** words the gutter made ambiguous, and what was done with them */
+  conflicts: GutterConflict[];
 }
-interface RawParagraph { words?: RawWord[] }
-interface RawBlock { paragraphs?: RawParagraph[] }
-interface RawPage { blocks?: RawBlock[] }
-interface RawVision { pages?: RawPage[]; text?: string }
 
-function isRawVision(x: unknown): x is RawVision {
-  return typeof x === "object" && x !== null && Array.isArray((x as RawVision).pages);
+/** Deterministic, LLM-free page build: per-column reading-ordered, script-tagged
+ *  lines, one transcript per detected column, left first (page reading order).
+ *  Skew and spine curvature are compensated first (./geometry.ts), then the
+ *  gutters are found (./layout.ts); headers, page numbers and section letters are
+ *  stripped last (./noise.ts) and kept as page metadata. */
+export function buildPage(raw: unknown, pageNumber: number): BuiltPage {
+  const words = rectifyWords(readOcrWords(raw));
+  const layout = detectLayout(words);
+  const { columns, conflicts } = resolveColumns(words, layout);
+  const all = columns.map((col, i) => ({
+    page_number: pageNumber,
+    column: columnLabel(i, layout.columns),
+    column_index: i,
+    lines: groupIntoLines(col),
+  }));
+  const meta = markPageFurniture(all, pageNumber);
+  return { transcripts: all.map(withoutNoise), meta, conflicts };
 }
 
-/** Read raw Vision JSON into flat normalized Words. Blocks are walked only to reach
- *  words; block segmentation is deliberately discarded (blocks != entries, docs 2). */
-export function readVisionWords(raw: unknown): Word[] {
-  if (!isRawVision(raw)) {
-    throw new Error("readVisionWords: not a Vision fullTextAnnotation (missing pages[])");
-  }
-  const words: Word[] = [];
-  for (const page of raw.pages ?? []) {
-    for (const block of page.blocks ?? []) {
-      for (const para of block.paragraphs ?? []) {
-        for (const w of para.words ?? []) {
-          const text = (w.symbols ?? []).map((s) => s.text ?? "").join("");
-          if (text.length === 0) continue;
-          words.push({
-            text,
-            bbox: bboxFromVertices(w.boundingBox?.vertices),
-            languageCode: w.property?.detectedLanguages?.[0]?.languageCode ?? null,
-            confidence: typeof w.confidence === "number" ? w.confidence : null,
-          });
-        }
-      }
-    }
-  }
-  return words;
-}
-
-/** Deterministic, LLM-free output: per-column reading-ordered, script-tagged lines.
- *  Left column first (page reading order). This is the parser's testable core. */
+/** The transcripts of buildPage(). This is the parser's testable core. */
 export function buildColumnTranscripts(raw: unknown, pageNumber: number): ColumnTranscript[] {
-  const { left, right } = splitColumns(readVisionWords(raw));
-  return [
-    { page_number: pageNumber, column: "left", lines: groupIntoLines(left) },
-    { page_number: pageNumber, column: "right", lines: groupIntoLines(right) },
-  ];
+  return buildPage(raw, pageNumber).transcripts;
 }
 
 function toEntry(
-  ce: CorrectedEntry,
+  { entry: ce, violations }: CheckedEntry,
   transcript: ColumnTranscript,
   pageNumber: number,
+  ordinal: number,
+  provenance: Provenance,
 ): Entry {
+  // Out-of-range indices can't contribute geometry; they are already recorded as
+  // violations by the reply gate, so the entry is flagged below.
   const usedLines = ce.line_indices
     .map((i) => transcript.lines[i])
     .filter((l): l is NonNullable<typeof l> => l !== undefined);
@@ -88,55 +84,223 @@ function toEntry(
   const confs = usedLines
     .map((l) => l.avgConfidence)
     .filter((c): c is number => typeof c === "number");
+  const mins = usedLines
+    .map((l) => l.minConfidence)
+    .filter((c): c is number => typeof c === "number");
   const translation_fa = normalizeFa(ce.translation_fa);
+  const pos = ce.pos === null ? null : normalizePos(ce.pos);
 
   const entry: Entry = {
-    entry_id: `${pageNumber}-${transcript.column}-${ce.line_indices[0] ?? 0}`,
+    // Keyed by first cited line; an entry citing nothing falls back to its ordinal
+    // in the reply (it is flagged anyway) rather than colliding on line 0.
+    entry_id: `${pageNumber}-${transcript.column}-${ce.line_indices[0] ?? `e${ordinal}`}`,
     headword_en: ce.headword_en,
     headword_normalized: ce.headword_en.toLowerCase().trim(),
+    sort_key: sortKey(ce.headword_en),
     pronunciation: ce.pronunciation,
-    pos: ce.pos,
+    pos: pos && pos.codes.length > 0 ? pos.codes : null,
     translation_fa,
+    translation_fa_normalized: normalizeFaSearch(translation_fa),
     definition_en: ce.definition_en,
+    cross_refs: extractCrossRefs(ce.definition_en),
     raw_ocr_snippet: ce.raw_ocr_snippet,
-    source_image: { page_number: pageNumber, column: transcript.column, bbox },
+    source_image: {
+      page_number: pageNumber,
+      column: transcript.column,
+      column_index: transcript.column_index,
+      bbox,
+    },
     is_continuation: ce.is_continuation,
+    runover_images: [],
     needs_review: false,
+    review_reasons: [],
     confidence: confs.length > 0 ? confs.reduce((s, c) => s + c, 0) / confs.length : null,
+    min_confidence: mins.length > 0 ? Math.min(...mins) : null,
+    provenance,
+    disagreement: ce.disagreement ?? null,
+    vision_reread: null,
   };
 
   // Validate: structural (Tier-1) + domain (Tier-2). Failures FLAG, never silently
   // drop -- route to human review (docs 6/9).
-  const structural = insertEntrySchema.safeParse(entry);
-  const farsiOk = farsiFieldSchema.safeParse(translation_fa).success;
-  const enOk = englishHeadwordSchema.safeParse(entry.headword_en).success;
-  const lowConfidence =
-    entry.confidence !== null && entry.confidence < LOW_CONFIDENCE_WORD;
-  if (
-    !structural.success ||
-    !farsiOk ||
-    !enOk ||
-    looksSuspiciousFa(translation_fa) ||
-    lowConfidence
-  ) {
-    entry.needs_review = true;
+  flagForReview(
+    entry,
+    ...violations.map((message) => ({ code: "reply_gate" as const, message })),
+    ...reviewEntry(entry),
+  );
+  // an abbreviation outside the POS key is kept out of entries.pos and shown here
+  if (ce.pos !== null && pos && pos.unknown.length > 0) {
+    flagForReview(entry, { code: "unknown_pos", value: ce.pos, unknown: pos.unknown });
+  }
+  // an entry cut off at the end of its correction window (llm/chunking.ts)
+  if (ce.truncated_at !== undefined) {
+    flagForReview(entry, { code: "window_truncated", line_index: ce.truncated_at });
+  }
+  // a cited line whose words may not belong together (lines.ts lineQuality)
+  for (const i of ce.line_indices) {
+    const quality = transcript.lines[i]?.quality ?? 1;
+    if (quality < MIN_LINE_QUALITY) {
+      flagForReview(entry, { code: "suspect_line", line_index: i, quality, threshold: MIN_LINE_QUALITY });
+    }
   }
   return entry;
 }
 
 /** Full page parse -> Entries. Requires a Corrector (model undecided, docs 13.4).
  *  Deterministic transcript building + validation are done here; only structure()
- *  is external. */
+ *  is external, and its reply goes through the gate + re-prompt loop first.
+ *  Pass the same runId for every page of a batch so the run can be re-selected.
+ *  With `vision`, low-confidence cited lines are also re-read from the scan and
+ *  the readings attached as Entry.vision_reread (the text correction is kept). */
 export async function parsePage(
   raw: unknown,
   pageNumber: number,
   corrector: Corrector,
+  runId: string = newRunId(),
+  vision?: VisionPass,
 ): Promise<Entry[]> {
-  const transcripts = buildColumnTranscripts(raw, pageNumber);
+  const { entries } = await correctTranscripts(buildColumnTranscripts(raw, pageNumber), pageNumber, corrector, runId, vision);
+  return entries;
+}
+
+async function correctTranscripts(
+  transcripts: ColumnTranscript[],
+  pageNumber: number,
+  corrector: Corrector,
+  runId: string,
+  vision: VisionPass | undefined,
+): Promise<{ entries: Entry[]; columns: ColumnCitations[] }> {
+  // Columns over the window size are corrected in overlapping chunks; a normal
+  // column is one window and goes straight through.
+  const chunked = new ChunkingCorrector(corrector);
   const entries: Entry[] = [];
+  const columns: ColumnCitations[] = [];
+  const seen = new Set<string>();
   for (const t of transcripts) {
-    const corrected = await corrector.structure(t);
-    for (const ce of corrected) entries.push(toEntry(ce, t, pageNumber));
+    const column: ColumnCitations = { transcript: t, cited: [] };
+    columns.push(column);
+    // a chunked column was repaired window by window; the merged reply only
+    // goes through the gate
+    const repairs = chunked.plan(t).length > 1 ? 0 : MAX_REPAIR_ATTEMPTS;
+    const checked = await correctWithRepair(chunked, t, repairs);
+    const provenance: Provenance = {
+      ...corrector.info,
+      run_id: runId,
+      corrected_at: new Date().toISOString(),
+    };
+    const memo = new Map<number, VisionReading>();
+    for (const [k, c] of checked.entries()) {
+      const entry = toEntry(c, t, pageNumber, k, provenance);
+      // Two entries claiming the same first line is a gate violation (already
+      // flagged); keep both, but never emit a duplicate primary key.
+      if (seen.has(entry.entry_id)) entry.entry_id = `${entry.entry_id}-e${k}`;
+      seen.add(entry.entry_id);
+      column.cited.push({ entry_id: entry.entry_id, line_indices: c.entry.line_indices });
+      if (vision) {
+        const context = { page_number: pageNumber, column: t.column };
+        try {
+          entry.vision_reread = await rereadLines(vision, t.lines, c.entry.line_indices, context, memo);
+        } catch (e) {
+          // no crop, no second reading: the entry stands on its text correction
+          if (!(e instanceof ImageUnavailableError)) throw e;
+          flagForReview(entry, { code: "vision_unavailable", message: e.message });
+        }
+        // The image disagreeing with the OCR on a line is exactly what a reviewer
+        // should look at; agreement adds nothing to the existing flags.
+        for (const r of entry.vision_reread?.readings ?? []) {
+          if (r.vision_text.trim() !== r.ocr_text.trim()) {
+            flagForReview(entry, { code: "vision_mismatch", line_index: r.line_index, ocr_text: r.ocr_text, vision_text: r.vision_text });
+          }
+        }
+      }
+      entries.push(entry);
+    }
   }
-  return entries;
-}
\ No newline at end of file
+  return { entries, columns };
+}
+
+export interface PageInput {
+  raw: unknown;
+  page_number: number;
+  /** page scan; only used when parseBatch is given a VisionReader */
+  image?: PageImage;
+}
+
+export interface BatchResult {
+  run_id: string;
+  /** meta: printed page number / section letter read off the page furniture;
+   *  conflicts: gutter-straddling words (columns.ts GutterConflict);
+   *  columns: each corrected transcript and the lines its entries cite */
+  pages: Array<{
+    page_number: number;
+    meta: PageMeta;
+    conflicts: GutterConflict[];
+    entries: Entry[];
+    columns: ColumnCitations[];
+  }>;
+  /** Set when the run stopped early. The named page and everything after it were
+   *  NOT processed (a partially corrected page is discarded, not half-stored). */
+  stopped: { page_number: number; reason: string } | null;
+  /** continuations merged into the entry before them (./stitch.ts); pages[].entries
+   *  already hold the merged entries and no longer list the continuations */
+  runover_links: RunoverLink[];
+  /** continuations nothing could be stitched to; left on their pages as parsed */
+  unresolved_runovers: string[];
+  /** cross-record findings over the processed pages (validation/cross-record.ts
+   *  validateBatch, validation/cross-refs.ts resolveCrossRefs), already attached
+   *  to their entries as review reasons */
+  findings: BatchFinding[];
+  /** entries flagged per review reason code across the processed pages */
+  review_summary: Partial<Record<ReviewCode, number>>;
+}
+
+/** Parse pages in order under one run id. A corrector whose UsageLedger refuses
+ *  the next call (BudgetExceededError) ends the batch cleanly with what's done;
+ *  any other error propagates. With a visionReader, pages that carry an image get
+ *  the vision re-read pass; pages without one are corrected from text only. */
+export async function parseBatch(
+  pages: PageInput[],
+  corrector: Corrector,
+  runId: string = newRunId(),
+  visionReader?: VisionReader,
+): Promise<BatchResult> {
+  const result: BatchResult = {
+    run_id: runId,
+    pages: [],
+    stopped: null,
+    runover_links: [],
+    unresolved_runovers: [],
+    findings: [],
+    review_summary: {},
+  };
+  for (const p of pages) {
+    try {
+      const vision = visionReader && p.image ? { reader: visionReader, image: p.image } : undefined;
+      const { transcripts, meta, conflicts } = buildPage(p.raw, p.page_number);
+      const { entries, columns } = await correctTranscripts(transcripts, p.page_number, corrector, runId, vision);
+      result.pages.push({ page_number: p.page_number, meta, conflicts, entries, columns });
+    } catch (e) {
+      if (!(e instanceof BudgetExceededError)) throw e;
+      result.stopped = { page_number: p.page_number, reason: e.message };
+      break;
+    }
+  }
+  // runovers are stitched first, so the checks below see whole entries, not a
+  // headless continuation and a truncated head
+  const stitched = stitchRunovers(result.pages);
+  const byId = new Map(stitched.entries.map((e) => [e.entry_id, e]));
+  const merged = new Set(stitched.links.map((l) => l.continuation_id));
+  for (const page of result.pages) {
+    page.entries = page.entries.filter((e) => !merged.has(e.entry_id)).map((e) => byId.get(e.entry_id) ?? e);
+  }
+  result.runover_links = stitched.links;
+  result.unresolved_runovers = stitched.unresolved;
+  // cross-record checks run over the whole run, page boundaries included; cross-refs
+  // resolve against the run's headwords (resolveCrossRefs with a wider index
+  // re-resolves them against the stored corpus)
+  const all = result.pages.flatMap((p) => p.entries);
+  result.findings = [...validateBatch(result.pages), ...resolveCrossRefs(all)];
+  attachFindings(all, result.findings);
+  result.review_summary = countReviewReasons(all);
+  return result;
+}
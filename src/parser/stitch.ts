@@ -0,0 +1,102 @@
+// Cross-page runover stitching (docs/04 §6.3 left it to the cross-record stage).
+// The corrector marks an entry whose text spills over from the previous page or
+// column is_continuation with headword_en "" (rule 6); on its own it can never
+// pass validation. stitchRunovers() walks the parsed pages in reading order and
+// merges each continuation into the entry printed just before it: text fields are
+// appended, the continuation's region is kept in runover_images, and the combined
+// entry is validated again.
+import type { Entry } from "../types.js";
+import { normalizeFaSearch } from "../validation/normalize.js";
+import { extractCrossRefs } from "../validation/cross-refs.js";
+import { RECORD_REVIEW_CODES, reviewEntry } from "../validation/entry.js";
+
+export interface ParsedPage {
+  page_number: number;
+  /** in reading order: columns left to right, entries top to bottom */
+  entries: Entry[];
+}
+
+export interface RunoverLink {
+  /** the continuation that was merged away */
+  continuation_id: string;
+  /** the entry it now belongs to */
+  entry_id: string;
+}
+
+export interface StitchResult {
+  entries: Entry[];
+  links: RunoverLink[];
+  /** continuations left as they were: nothing precedes them, or the previous
+   *  page is missing from the sequence */
+  unresolved: string[];
+}
+
+const joinText = (a: string, b: string): string => [a, b].filter((s) => s.length > 0).join(" ");
+
+function mean(a: number | null, b: number | null): number | null {
+  if (a === null || b === null) return a ?? b;
+  return (a + b) / 2;
+}
+
+/** Head + continuation as one entry. The head keeps its identity, headword and
+ *  provenance. Record-level review reasons are recomputed on the combined entry;
+ *  reasons only the parser could see (reply gate, suspect lines, vision
+ *  mismatches) carry over from both parts. */
+function merge(head: Entry, cont: Entry): Entry {
+  const minConfidence = [head.min_confidence, cont.min_confidence].filter((c): c is number => c !== null);
+  const definition = joinText(head.definition_en ?? "", cont.definition_en ?? "");
+  const translation = joinText(head.translation_fa, cont.translation_fa);
+  const merged: Entry = {
+    ...head,
+    pronunciation: head.pronunciation ?? cont.pronunciation,
+    pos: head.pos ?? cont.pos,
+    translation_fa: translation,
+    translation_fa_normalized: normalizeFaSearch(translation),
+    definition_en: definition.length > 0 ? definition : null,
+    // re-read: a span may open in the head and close in the continuation
+    cross_refs: extractCrossRefs(definition.length > 0 ? definition : null),
+    raw_ocr_snippet: joinText(head.raw_ocr_snippet, cont.raw_ocr_snippet),
+    runover_images: [...head.runover_images, cont.source_image, ...cont.runover_images],
+    confidence: mean(head.confidence, cont.confidence),
+    min_confidence: minConfidence.length > 0 ? Math.min(...minConfidence) : null,
+    disagreement: head.disagreement ?? cont.disagreement,
+    vision_reread: head.vision_reread ?? cont.vision_reread,
+  };
+  const upstream = [...head.review_reasons, ...cont.review_reasons].filter(
+    (r) => !RECORD_REVIEW_CODES.includes(r.code),
+  );
+  merged.review_reasons = [...upstream, ...reviewEntry(merged)];
+  merged.needs_review = merged.review_reasons.length > 0;
+  return merged;
+}
+
+/** Merge every continuation into the entry before it in reading order: the last
+ *  entry of the previous column, or of the previous page when it opens a page.
+ *  Only the first entry of a column can continue anything; a continuation after
+ *  a gap in the page sequence stays unresolved. */
+export function stitchRunovers(pages: readonly ParsedPage[]): StitchResult {
+  const entries: Entry[] = [];
+  const links: RunoverLink[] = [];
+  const unresolved: string[] = [];
+
+  for (const page of pages) {
+    for (const e of page.entries) {
+      const head = entries.at(-1);
+      // where the head's text last appeared
+      const last = head ? (head.runover_images.at(-1) ?? head.source_image) : null;
+      const follows =
+        last !== null &&
+        (last.page_number === page.page_number
+          ? last.column_index < e.source_image.column_index
+          : last.page_number === page.page_number - 1);
+      if (!e.is_continuation || !head || !follows) {
+        if (e.is_continuation) unresolved.push(e.entry_id);
+        entries.push(e);
+        continue;
+      }
+      entries[entries.length - 1] = merge(head, e);
+      links.push({ continuation_id: e.entry_id, entry_id: head.entry_id });
+    }
+  }
+  return { entries, links, unresolved };
+}
@@ -1,38 +1,139 @@
 // Entry shape per docs 10. Direction is English headword -> Farsi equivalent ->
 // English definition (correcting NOTES.md's "Farsi_Term" mislabel).
+import type { ProfileName } from "./llm/config.js";
+import type { Disagreement, DisagreementField } from "./llm/consensus.js";
+import type { VisionReread } from "./llm/vision.js";
+import type { Pos } from "./validation/pos.js";
 
-export type Column = "left" | "right";
+/** Column label from parser/layout.ts columnLabel(): "left"/"right" on two-column
+ *  pages, "full" on single-column pages, "col1".."colN" on wider layouts. */
+export type Column = "left" | "right" | "full" | `col${number}`;
 
 export interface SourceImage {
   page_number: number;
   column: Column;
+  /** 0-based, left to right, among the page's detected columns */
+  column_index: number;
   /** union of the entry's Vision word bounding boxes: [x, y, w, h] */
   bbox: [number, number, number, number];
 }
 
+/** Which correction produced an entry. Without it there is no way to tell which
+ *  entries to re-run when the prompt or the model changes. */
+export interface Provenance {
+  /** PromptId from llm/prompts.ts */
+  prompt_version: string;
+  profile: ProfileName;
+  /** exact model id the profile resolved to */
+  model: string;
+  /** one id per correction run (a batch of pages) */
+  run_id: string;
+  /** ISO-8601, when the corrector returned this entry's column */
+  corrected_at: string;
+}
+
+/** Why an entry needs review. One entry can carry several; each names the check
+ *  that failed and what it saw, so reviewers can filter the queue by cause. */
+export type ReviewReason =
+  /** Tier-1: the row doesn't fit the entries table (path = Zod issue path) */
+  | { code: "structural"; path: string; message: string }
+  /** Tier-2: translation_fa is not Arabic-script only */
+  | { code: "farsi_script"; message: string }
+  /** Tier-2: headword_en is not Latin only */
+  | { code: "english_script"; message: string }
+  /** translation_fa is too short or carries Latin letters (refinements.ts) */
+  | { code: "suspicious_fa"; value: string }
+  /** average word confidence under LOW_CONFIDENCE_WORD */
+  | { code: "low_confidence"; actual: number; threshold: number }
+  /** lowest symbol confidence under LOW_CONFIDENCE_SYMBOL */
+  | { code: "low_symbol_confidence"; actual: number; threshold: number }
+  /** consensus mode: the models disagreed on these fields */
+  | { code: "disagreement"; fields: DisagreementField[] }
+  /** the corrector's reply broke a transcript invariant (llm/schema.ts) */
+  | { code: "reply_gate"; message: string }
+  /** a cited line whose words may not belong together (lines.ts lineQuality) */
+  | { code: "suspect_line"; line_index: number; quality: number; threshold: number }
+  /** chunked correction: the entry ran to the last line of its window
+   *  (llm/chunking.ts), so lines after line_index may be missing from it */
+  | { code: "window_truncated"; line_index: number }
+  /** the vision re-read pass couldn't crop the page scan (llm/vision.ts
+   *  ImageUnavailableError); the entry was corrected from text only */
+  | { code: "vision_unavailable"; message: string }
+  /** the vision re-read of a cited line differs from its OCR text */
+  | { code: "vision_mismatch"; line_index: number; ocr_text: string; vision_text: string }
+  /** the corrector's POS tag has parts the POS key doesn't know */
+  | { code: "unknown_pos"; value: string; unknown: string[] }
+  /** cross-record: the headword sorts before the previous entry's */
+  | { code: "out_of_order"; prev: string; curr: string }
+  /** cross-record: several entries file under one headword (entry_ids: all of them) */
+  | { code: "duplicate_headword"; headword: string; entry_ids: string[] }
+  /** cross-record: transcript lines next to this entry that no entry cites --
+   *  possibly dropped content */
+  | { code: "uncited_lines"; page_number: number; column: Column; line_indices: number[]; text: string }
+  /** cross-record: the entry's region overlaps another's in the same column
+   *  (share: of the smaller region) */
+  | { code: "overlapping_regions"; entry_ids: string[]; share: number }
+  /** cross-record: the headword's first letter is not the page's section letter */
+  | { code: "section_letter"; expected: string; actual: string }
+  /** cross-record: pages missing from the processed sequence next to this entry */
+  | { code: "missing_pages"; page_numbers: number[] }
+  /** cross-record: a cross-reference target that names no headword in the corpus */
+  | { code: "unresolved_cross_ref"; target: string };
+
+export type ReviewCode = ReviewReason["code"];
+
+/** A <...> span of definition_en that points at another headword
+ *  (validation/cross-refs.ts). */
+export interface CrossRef {
+  /** the span as printed, brackets stripped */
+  text: string;
+  /** the headword it names ("See Abettor" -> "Abettor") */
+  target: string;
+  /** the entry the target resolves to; null until resolved, or when it resolves
+   *  nowhere */
+  entry_id: string | null;
+}
+
 export interface Entry {
   entry_id: string;
   headword_en: string;
   /** lowercased/stripped, for exact + prefix search */
   headword_normalized: string;
+  /** dictionary collation key (collation.ts sortKey): the order the book files
+   *  headwords in; used by the continuity check and prefix search */
+  sort_key: string;
   pronunciation: string | null;
-  pos: string | null;
+  /** canonical codes from the POS key (validation/pos.ts), in printed order; a
+   *  compound tag ("n. & adj.") has several. null when none is printed */
+  pos: Pos[] | null;
   /** Arabic-script, Unicode-normalized (NFC + Arabic->Persian) */
   translation_fa: string;
+  /** search form of translation_fa (normalizeFaSearch): ZWNJ, harakat and hamza
+   *  variants folded, for exact + prefix search like headword_normalized */
+  translation_fa_normalized: string;
   definition_en: string | null;
+  /** cross-references read out of definition_en's <...> spans */
+  cross_refs: CrossRef[];
   /** pre-correction Vision text, for audit */
   raw_ocr_snippet: string;
   source_image: SourceImage;
   /** true if this entry runs over from a prior page */
   is_continuation: boolean;
-  /** set by validation */
+  /** source_image of every continuation stitched onto this entry (later columns /
+   *  pages, reading order); empty for an entry printed in one piece */
+  runover_images: SourceImage[];
+  /** set by validation: true iff review_reasons is non-empty */
   needs_review: boolean;
-  /** min/avg of the entry's Vision word confidences */
+  review_reasons: ReviewReason[];
+  /** average of the cited lines' Vision word confidences */
   confidence: number | null;
+  /** lowest Vision symbol confidence on the cited lines (word confidence where the
+   *  source has no symbols) */
+  min_confidence: number | null;
+  provenance: Provenance;
+  /** consensus mode: the models' conflicting candidates (implies needs_review) */
+  disagreement: Disagreement | null;
+  /** vision pass only: image re-reads of the entry's low-confidence lines, kept
+   *  beside the text correction for comparison (a mismatch implies needs_review) */
+  vision_reread: VisionReread | null;
 }
-
-// TODO [verify]: the real POS abbreviation set must be derived from the actual
-// dictionary's front-matter key, NOT invented here. These are placeholders so the
-// Tier-1 enum has something to check; replace once the corpus is sampled (docs 13.5).
-export const POS_VALUES = ["n", "v", "adj", "adv", "prep", "conj", "phr"] as const;
-export type Pos = (typeof POS_VALUES)[number];
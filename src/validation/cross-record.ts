@@ -1,7 +1,15 @@
 // Cross-record invariants run OUTSIDE Zod (Zod validates one record at a time,
 // docs 9). The key check is alphabetical-order continuity across the corpus
-// (docs 6), which MUST tolerate runover continuations.
-import type { Entry } from "../types.js";
+// (docs 6), which MUST tolerate runover continuations. validateBatch() runs it
+// with the other checks that need more than one record -- duplicates, uncited
+// transcript lines, overlapping regions, section letters, missing pages -- and
+// reports each as a BatchFinding: a review reason plus the entries it concerns,
+// ready to attach with attachFindings().
+import type { Entry, ReviewReason } from "../types.js";
+import type { ColumnTranscript } from "../parser/lines.js";
+import type { PageMeta } from "../parser/noise.js";
+import { REGION_OVERLAP_SHARE } from "../eval/thresholds.js";
+import { flagForReview } from "./entry.js";
 
 export interface OrderViolation {
   index: number;
@@ -9,19 +17,181 @@ export interface OrderViolation {
   curr: string;
 }
 
-/** Flags entries whose normalized headword sorts before the previous one.
+/** Flags entries whose headword files before the previous one in dictionary
+ *  order (sort_key, collation.ts -- spaces and punctuation don't count).
  *  Continuations (is_continuation) are skipped: an entry spilling from the prior
- *  page is not an ordering violation. */
+ *  page is not an ordering violation. prev/curr are the normalized headwords. */
 export function checkAlphabeticalContinuity(entries: Entry[]): OrderViolation[] {
   const violations: OrderViolation[] = [];
-  let prev: string | null = null;
+  let prev: Entry | null = null;
   for (let i = 0; i < entries.length; i++) {
     const e = entries[i];
     if (e === undefined || e.is_continuation) continue;
-    if (prev !== null && e.headword_normalized < prev) {
-      violations.push({ index: i, prev, curr: e.headword_normalized });
+    if (prev !== null && e.sort_key < prev.sort_key) {
+      violations.push({ index: i, prev: prev.headword_normalized, curr: e.headword_normalized });
     }
-    prev = e.headword_normalized;
+    prev = e;
   }
   return violations;
 }
+
+/** A cross-record problem: the reason to show, and the entries to show it on
+ *  (empty when there is no entry to pin it to, e.g. an uncited column). */
+export interface BatchFinding {
+  entry_ids: string[];
+  reason: ReviewReason;
+}
+
+/** One corrected column: its transcript and the lines each entry cites. */
+export interface ColumnCitations {
+  transcript: ColumnTranscript;
+  cited: Array<{ entry_id: string; line_indices: number[] }>;
+}
+
+export interface BatchPage {
+  page_number: number;
+  /** page furniture read off the page; null skips the section-letter check */
+  meta: PageMeta | null;
+  /** in reading order */
+  entries: Entry[];
+  /** omitted: the uncited-line check is skipped for the page */
+  columns?: ColumnCitations[] | undefined;
+}
+
+function outOfOrder(entries: Entry[]): BatchFinding[] {
+  return checkAlphabeticalContinuity(entries).map((v) => ({
+    entry_ids: [entries[v.index]?.entry_id ?? ""],
+    reason: { code: "out_of_order", prev: v.prev, curr: v.curr },
+  }));
+}
+
+/** Headwords filed under one sort_key more than once. Continuations have no
+ *  headword of their own and are skipped. */
+function duplicateHeadwords(entries: Entry[]): BatchFinding[] {
+  const groups = new Map<string, Entry[]>();
+  for (const e of entries) {
+    if (e.is_continuation || e.sort_key === "") continue;
+    groups.set(e.sort_key, [...(groups.get(e.sort_key) ?? []), e]);
+  }
+  return [...groups.values()]
+    .filter((g) => g.length > 1)
+    .map((g) => {
+      const entry_ids = g.map((e) => e.entry_id);
+      return { entry_ids, reason: { code: "duplicate_headword", headword: g[0]!.headword_normalized, entry_ids } };
+    });
+}
+
+/** Runs of consecutive lines no entry cites, pinned to the entry citing the line
+ *  before the run (or after it, for a run opening the column). */
+function uncitedLines(page: BatchPage): BatchFinding[] {
+  const findings: BatchFinding[] = [];
+  for (const { transcript, cited } of page.columns ?? []) {
+    const owner = new Map<number, string>();
+    for (const c of cited) for (const i of c.line_indices) owner.set(i, c.entry_id);
+    let run: number[] = [];
+    const flush = (next: number) => {
+      if (run.length === 0) return;
+      const before = owner.get(run[0]! - 1);
+      const after = owner.get(next);
+      findings.push({
+        entry_ids: before !== undefined ? [before] : after !== undefined ? [after] : [],
+        reason: {
+          code: "uncited_lines",
+          page_number: page.page_number,
+          column: transcript.column,
+          line_indices: run,
+          text: run.map((i) => transcript.lines[i]?.text ?? "").join(" "),
+        },
+      });
+      run = [];
+    };
+    transcript.lines.forEach((_l, i) => {
+      if (owner.has(i)) flush(i);
+      else run.push(i);
+    });
+    flush(transcript.lines.length);
+  }
+  return findings;
+}
+
+/** Intersection area over the smaller box's area; 0 for disjoint boxes. */
+function overlapShare(a: readonly number[], b: readonly number[]): number {
+  const [ax = 0, ay = 0, aw = 0, ah = 0] = a;
+  const [bx = 0, by = 0, bw = 0, bh = 0] = b;
+  const w = Math.min(ax + aw, bx + bw) - Math.max(ax, bx);
+  const h = Math.min(ay + ah, by + bh) - Math.max(ay, by);
+  const smaller = Math.min(aw * ah, bw * bh);
+  return w > 0 && h > 0 && smaller > 0 ? (w * h) / smaller : 0;
+}
+
+/** Pairs of entries in one column whose regions overlap beyond
+ *  REGION_OVERLAP_SHARE: two entries claiming the same print. */
+function overlappingRegions(page: BatchPage): BatchFinding[] {
+  const findings: BatchFinding[] = [];
+  page.entries.forEach((a, i) => {
+    for (const b of page.entries.slice(i + 1)) {
+      if (a.source_image.column_index !== b.source_image.column_index) continue;
+      const share = overlapShare(a.source_image.bbox, b.source_image.bbox);
+      if (share > REGION_OVERLAP_SHARE) {
+        const entry_ids = [a.entry_id, b.entry_id];
+        findings.push({ entry_ids, reason: { code: "overlapping_regions", entry_ids, share } });
+      }
+    }
+  });
+  return findings;
+}
+
+/** Headwords whose first letter isn't the section letter printed on the page. */
+function sectionLetters(page: BatchPage): BatchFinding[] {
+  const expected = page.meta?.section_letter?.toUpperCase();
+  if (!expected) return [];
+  return page.entries
+    .filter((e) => !e.is_continuation && e.sort_key !== "")
+    .map((e) => ({ e, actual: (e.sort_key[0] ?? "").toUpperCase() }))
+    .filter(({ actual }) => actual !== expected)
+    .map(({ e, actual }) => ({
+      entry_ids: [e.entry_id],
+      reason: { code: "section_letter", expected, actual },
+    }));
+}
+
+/** Gaps in the processed page numbers, pinned to the entries on either side. */
+function missingPages(pages: readonly BatchPage[]): BatchFinding[] {
+  const findings: BatchFinding[] = [];
+  const sorted = [...pages].sort((a, b) => a.page_number - b.page_number);
+  for (let k = 1; k < sorted.length; k++) {
+    const prev = sorted[k - 1]!;
+    const next = sorted[k]!;
+    if (next.page_number - prev.page_number <= 1) continue;
+    const page_numbers: number[] = [];
+    for (let p = prev.page_number + 1; p < next.page_number; p++) page_numbers.push(p);
+    const around = [prev.entries.at(-1), next.entries[0]].filter((e): e is Entry => e !== undefined);
+    findings.push({ entry_ids: around.map((e) => e.entry_id), reason: { code: "missing_pages", page_numbers } });
+  }
+  return findings;
+}
+
+/** Every cross-record check over a batch of pages in reading order. */
+export function validateBatch(pages: readonly BatchPage[]): BatchFinding[] {
+  const all = pages.flatMap((p) => p.entries);
+  return [
+    ...outOfOrder(all),
+    ...duplicateHeadwords(all),
+    ...pages.flatMap(uncitedLines),
+    ...pages.flatMap(overlappingRegions),
+    ...pages.flatMap(sectionLetters),
+    ...missingPages(pages),
+  ];
+}
+
+/** Attach each finding to its entries as a review reason (ids not among
+ *  `entries` are ignored). */
+export function attachFindings(entries: readonly Entry[], findings: readonly BatchFinding[]): void {
+  const byId = new Map(entries.map((e) => [e.entry_id, e]));
+  for (const f of findings) {
+    for (const id of f.entry_ids) {
+      const e = byId.get(id);
+      if (e) flagForReview(e, f.reason);
+    }
+  }
+}
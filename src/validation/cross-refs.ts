@@ -0,0 +1,118 @@
+// Cross-references (docs/04 rule 3). The corrector appends every <...> span to
+// definition_en with its brackets kept; this module reads them back out. On the
+// sampled pages most spans are usage examples ("< He abandoned his farm . >"),
+// not pointers, so only two kinds of span are taken as references:
+//
+//   - a marked one: "<See Abettor>", "<Cf. Accomplice>", "<See also Abet>";
+//   - a bare one short enough to be a headword (MAX_TARGET_WORDS words, no
+//     sentence punctuation): "<Accessory>", "<Abatement, plea of>".
+//
+// A span may name several targets separated by ";". Targets are resolved by
+// dictionary collation (collation.ts sortKey) against the headword index of the
+// whole corpus, so punctuation and spacing differences don't matter; a target
+// that resolves nowhere is OCR damage or a missed entry and goes to review.
+import type { CrossRef, Entry } from "../types.js";
+import { sortKey } from "../collation.js";
+import type { BatchFinding } from "./cross-record.js";
+
+/** Longest bare span still read as a headword rather than an example. */
+export const MAX_TARGET_WORDS = 3;
+
+const SPAN = /<([^<>]*)>/g;
+const SEE_MARKER = /^\s*(?:see also|see|cf\.?|compare)\s+/i;
+
+/** One ";"-separated part of a span, as printed, and the target it names. */
+interface SpanPart {
+  raw: string;
+  target: string | null;
+}
+
+/** A span cut into its See/Cf. marker ("" when unmarked) and its parts. */
+function splitSpan(span: string): { marker: string; parts: SpanPart[] } {
+  const marker = SEE_MARKER.exec(span)?.[0] ?? "";
+  const parts = span
+    .slice(marker.length)
+    .split(";")
+    .map((raw) => {
+      const target = raw.trim().replace(/[\s.,:]+$/, "");
+      return { raw, target: /\p{L}/u.test(target) ? target : null };
+    });
+  return { marker, parts };
+}
+
+/** The targets a span points to; [] for an example span. */
+function spanTargets(span: string): string[] {
+  const text = span.trim();
+  const { marker, parts } = splitSpan(text);
+  const targets = parts.flatMap((p) => (p.target === null ? [] : [p.target]));
+  if (marker !== "") return targets;
+  const looksLikeHeadword =
+    targets.length === 1 && !/[.?!]/.test(text) && text.split(/\s+/).length <= MAX_TARGET_WORDS;
+  return looksLikeHeadword ? targets : [];
+}
+
+/** Cross-refs in a definition, in order, unresolved (entry_id null). */
+export function extractCrossRefs(definition: string | null): CrossRef[] {
+  if (definition === null) return [];
+  const refs: CrossRef[] = [];
+  for (const m of definition.matchAll(SPAN)) {
+    const text = (m[1] ?? "").trim();
+    for (const target of spanTargets(text)) refs.push({ text, target, entry_id: null });
+  }
+  return refs;
+}
+
+/** Resolve every entry's cross_refs against `index` (the headwords of the whole
+ *  corpus; defaults to `entries` itself), setting CrossRef.entry_id. Returns an
+ *  unresolved_cross_ref finding per target that matches no headword. */
+export function resolveCrossRefs(entries: readonly Entry[], index: readonly Entry[] = entries): BatchFinding[] {
+  const byKey = new Map<string, string>();
+  for (const e of index) {
+    if (!e.is_continuation && e.sort_key !== "" && !byKey.has(e.sort_key)) byKey.set(e.sort_key, e.entry_id);
+  }
+  const findings: BatchFinding[] = [];
+  for (const e of entries) {
+    for (const ref of e.cross_refs) {
+      ref.entry_id = byKey.get(sortKey(ref.target)) ?? null;
+      if (ref.entry_id === null) {
+        findings.push({ entry_ids: [e.entry_id], reason: { code: "unresolved_cross_ref", target: ref.target } });
+      }
+    }
+  }
+  return findings;
+}
+
+/** How a resolved cross-ref is written out: `target` as printed, `entry_id` of
+ *  the entry it names. */
+export type CrossRefLink = (ref: { target: string; entry_id: string }) => string;
+
+/** Markdown link to the entry's anchor. */
+export const markdownCrossRef: CrossRefLink = ({ target, entry_id }) => `[${target}](#${entry_id})`;
+
+/** The definition with each resolved target inside its <...> span replaced by a
+ *  link; unresolved targets and example spans are left as printed. The span is
+ *  rebuilt part by part, so a target is linked where it stands, never inside a
+ *  longer one ("<See Abettor; Abet>"). */
+export function renderCrossRefs(
+  definition: string,
+  refs: readonly CrossRef[],
+  link: CrossRefLink = markdownCrossRef,
+): string {
+  return definition.replace(SPAN, (span, inner: string) => {
+    const text = inner.trim();
+    // extractCrossRefs emits one ref per target, in part order
+    const own = refs.filter((r) => r.text === text);
+    if (!own.some((r) => r.entry_id !== null)) return span;
+    const lead = inner.slice(0, inner.indexOf(text));
+    const { marker, parts } = splitSpan(text);
+    let k = 0;
+    const rendered = parts.map(({ raw, target }) => {
+      if (target === null) return raw;
+      const ref = own[k++];
+      if (!ref || ref.entry_id === null || ref.target !== target) return raw;
+      const at = raw.length - raw.trimStart().length;
+      return raw.slice(0, at) + link({ target, entry_id: ref.entry_id }) + raw.slice(at + target.length);
+    });
+    return `<${lead}${marker}${rendered.join(";")}${inner.slice(lead.length + text.length)}>`;
+  });
+}
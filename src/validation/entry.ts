@@ -0,0 +1,75 @@
+// Per-record validation of a finished Entry: structural (Tier-1) + domain (Tier-2)
+// + confidence. Checks that need the transcript (reply-gate violations, suspect
+// line groupings) stay with the parser; everything here reads only the entry, so
+// it can be re-run when entries are combined later (parser/stitch.ts).
+import type { Entry, ReviewCode, ReviewReason } from "../types.js";
+import { entryToRow, insertEntrySchema } from "../db/schema.js";
+import { farsiFieldSchema, englishHeadwordSchema, looksSuspiciousFa } from "./refinements.js";
+import { LOW_CONFIDENCE_SYMBOL, LOW_CONFIDENCE_WORD } from "../eval/thresholds.js";
+
+/** The codes reviewEntry() decides; every other code comes from a check that
+ *  needs more than the entry (the transcript, the neighbouring records). */
+export const RECORD_REVIEW_CODES: readonly ReviewCode[] = [
+  "structural",
+  "farsi_script",
+  "english_script",
+  "suspicious_fa",
+  "low_confidence",
+  "low_symbol_confidence",
+  "disagreement",
+];
+
+/** Every record-level check the entry fails; empty when it passes them all. */
+export function reviewEntry(entry: Entry): ReviewReason[] {
+  const reasons: ReviewReason[] = [];
+  const structural = insertEntrySchema.safeParse(entryToRow(entry));
+  if (!structural.success) {
+    for (const issue of structural.error.issues) {
+      reasons.push({ code: "structural", path: issue.path.join(".") || "(entry)", message: issue.message });
+    }
+  }
+  const farsi = farsiFieldSchema.safeParse(entry.translation_fa);
+  if (!farsi.success) {
+    reasons.push({ code: "farsi_script", message: farsi.error.issues[0]?.message ?? "invalid" });
+  }
+  const en = englishHeadwordSchema.safeParse(entry.headword_en);
+  if (!en.success) {
+    reasons.push({ code: "english_script", message: en.error.issues[0]?.message ?? "invalid" });
+  }
+  if (looksSuspiciousFa(entry.translation_fa)) {
+    reasons.push({ code: "suspicious_fa", value: entry.translation_fa });
+  }
+  if (entry.confidence !== null && entry.confidence < LOW_CONFIDENCE_WORD) {
+    reasons.push({ code: "low_confidence", actual: entry.confidence, threshold: LOW_CONFIDENCE_WORD });
+  }
+  if (entry.min_confidence !== null && entry.min_confidence < LOW_CONFIDENCE_SYMBOL) {
+    reasons.push({ code: "low_symbol_confidence", actual: entry.min_confidence, threshold: LOW_CONFIDENCE_SYMBOL });
+  }
+  if (entry.disagreement !== null) {
+    reasons.push({ code: "disagreement", fields: entry.disagreement.fields });
+  }
+  return reasons;
+}
+
+/** True when the entry passes every record-level check; false routes it to
+ *  review. Failures FLAG, never silently drop (docs 6/9). */
+export function validateEntry(entry: Entry): boolean {
+  return reviewEntry(entry).length === 0;
+}
+
+/** Append reasons to the entry and keep needs_review in step with them. */
+export function flagForReview(entry: Entry, ...reasons: ReviewReason[]): void {
+  entry.review_reasons.push(...reasons);
+  entry.needs_review = entry.review_reasons.length > 0;
+}
+
+/** How many entries carry each reason code (an entry counts once per code). */
+export function countReviewReasons(entries: readonly Entry[]): Partial<Record<ReviewCode, number>> {
+  const counts: Partial<Record<ReviewCode, number>> = {};
+  for (const e of entries) {
+    for (const code of new Set(e.review_reasons.map((r) => r.code))) {
+      counts[code] = (counts[code] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
@@ -1,10 +1,37 @@
 // Normalize BEFORE validating (docs 9). Validating raw OCR produces false failures
 // on characters that are fine once normalized. Steps taken verbatim from docs 9:
 // NFC, Arabic ي/ك -> Persian ی/ک, Arabic-Indic digits -> Persian digits.
+//
+// Two layers. normalizeFa() is the STORAGE form (translation_fa): it only removes
+// what carries no meaning -- presentation-form glyphs, kashida, bidi marks, stray
+// ZWNJ -- and keeps harakat and the ZWNJ of compound words (می‌شود, کتاب‌ها).
+// normalizeFaSearch() is the SEARCH form (translation_fa_normalized), the Farsi
+// counterpart of headword_normalized: it folds everything two spellings of one
+// word can differ by, so it is for matching only and never shown.
 
 const CHAR_MAP: Record<string, string> = {
   "\u064A": "\u06CC", // Arabic yeh   -> Persian yeh
+  "\u0649": "\u06CC", // alef maksura -> Persian yeh
   "\u0643": "\u06A9", // Arabic kaf   -> Persian keheh
+  "\u06C0": "\u0647\u0654", // heh with yeh above (ۀ) -> heh + hamza above (هٔ)
+};
+
+const ZWNJ = "\u200C";
+// Arabic presentation forms A (U+FB50-FDFF) and B (U+FE70-FEFC): contextual
+// glyphs some OCR engines and PDFs emit instead of letters; NFKC maps them back
+const PRESENTATION_FORMS = /[\uFB50-\uFDFF\uFE70-\uFEFC]/g;
+// tatweel/kashida, LRM/RLM, Arabic letter mark, bidi embeddings and isolates, BOM
+const INVISIBLE = /[\u0640\u200E\u200F\u061C\u202A-\u202E\u2066-\u2069\uFEFF]/g;
+// harakat, hamza above/below, superscript alef
+const DIACRITICS = /[\u064B-\u065F\u0670]/g;
+const HAMZA_CARRIERS: Record<string, string> = {
+  "\u0622": "\u0627", // آ -> ا
+  "\u0623": "\u0627", // أ -> ا
+  "\u0625": "\u0627", // إ -> ا
+  "\u0671": "\u0627", // ٱ -> ا
+  "\u0624": "\u0648", // ؤ -> و
+  "\u0626": "\u06CC", // ئ -> ی
+  "\u0629": "\u0647", // teh marbuta ة -> ه
 };
 
 // Arabic-Indic digits U+0660-U+0669 -> Persian (Extended Arabic-Indic) U+06F0-U+06F9
@@ -14,9 +41,33 @@ function mapDigits(s: string): string {
   );
 }
 
+/** A ZWNJ only means something between two letters (marks count with their
+ *  letter); doubled, or next to a space, digit or edge, it is dropped. */
+function canonicalZwnj(s: string): string {
+  return s
+    .replace(/\u200C+/g, ZWNJ)
+    .replace(/(?<![\p{L}\p{M}])\u200C|\u200C(?![\p{L}\p{M}])/gu, "");
+}
+
+/** Storage form: NFC, Persian letters and digits, no presentation forms, kashida
+ *  or bidi marks, ZWNJ only where it joins two letters. Harakat are kept. */
 export function normalizeFa(input: string): string {
-  let out = input.normalize("NFC");
-  out = out.replace(/[\u064A\u0643]/g, (c) => CHAR_MAP[c] ?? c);
+  let out = input.replace(PRESENTATION_FORMS, (c) => c.normalize("NFKC"));
+  out = out.normalize("NFC");
+  out = out.replace(/[\u064A\u0649\u0643\u06C0]/g, (c) => CHAR_MAP[c] ?? c);
   out = mapDigits(out);
+  out = out.replace(INVISIBLE, "");
+  return canonicalZwnj(out);
+}
+
+/** Search form: the storage form with harakat and hamza carriers folded, ة -> ه,
+ *  and ZWNJ gone -- the verb prefix می/نمی and the plural ها are joined to their
+ *  word whether the page printed a ZWNJ, a space or nothing. Whitespace collapsed. */
+export function normalizeFaSearch(input: string): string {
+  let out = normalizeFa(input).replace(/[\u0622\u0623\u0625\u0671\u0624\u0626\u0629]/g, (c) => HAMZA_CARRIERS[c] ?? c);
+  out = out.replace(DIACRITICS, "").replaceAll(ZWNJ, "");
+  out = out.replace(/\s+/g, " ").trim();
+  out = out.replace(/(^| )(\u0646?\u0645\u06CC) (?=\p{L})/gu, "$1$2");
+  out = out.replace(/(\p{L}) (\u0647\u0627|\u0647\u0627\u06CC)(?= |$)/gu, "$1$2");
   return out;
 }
@@ -0,0 +1,83 @@
+// Part-of-speech registry (docs 10 / spec §10 #3). The tag set is DATA, not code:
+// pos-key.provisional.json stands in for the book's front-matter abbreviation key
+// (not transcribed yet, docs/status.md), and everything here -- the canonical
+// codes, the Tier-1 enum on entries.pos, the corrector-output normalization -- is
+// derived from it. Until the real key replaces it, a tag the provisional set
+// doesn't know is an unknown_pos review reason (parser.ts), not a rejection.
+//
+// A printed tag is matched loosely (case, dots, spaces and ZWNJ ignored), so
+// "n.", "N." and "n" are one tag and "v. t." is "v.t."; a compound tag ("n. &
+// adj.", "v.t. and v.i.") is split on the key's separators into its parts.
+// Anything that isn't in the key is reported, never guessed.
+import posKey from "./pos-key.provisional.json" with { type: "json" };
+
+export interface PosTag {
+  /** canonical code, stored in entries.pos */
+  code: string;
+  label_en: string;
+  /** the book's Persian label, when it prints one */
+  label_fa: string | null;
+  /** printed forms seen in the book */
+  variants: string[];
+}
+
+/** A canonical code from the POS key. */
+export type Pos = string;
+
+export const POS_TAGS: readonly PosTag[] = posKey.tags.map((t) => ({
+  code: t.code,
+  label_en: t.label_en,
+  label_fa: t.label_fa ?? null,
+  variants: t.variants,
+}));
+
+const first = POS_TAGS[0];
+if (!first) throw new Error("pos-key.provisional.json: no tags");
+/** Canonical codes in key order (non-empty, as pgEnum wants). */
+export const POS_VALUES: readonly [Pos, ...Pos[]] = [first.code, ...POS_TAGS.slice(1).map((t) => t.code)];
+
+const matchKey = (s: string): string => s.normalize("NFC").toLowerCase().replace(/[.\s‌]/g, "");
+
+const BY_KEY = new Map<string, Pos>();
+for (const t of POS_TAGS) {
+  for (const form of [t.code, ...t.variants, ...(t.label_fa ? [t.label_fa] : [])]) {
+    const k = matchKey(form);
+    const owner = BY_KEY.get(k);
+    if (owner !== undefined && owner !== t.code) {
+      throw new Error(`pos-key.provisional.json: "${form}" is claimed by both ${owner} and ${t.code}`);
+    }
+    BY_KEY.set(k, t.code);
+  }
+}
+
+const escape = (s: string): string => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+// word separators ("and", "و") only between spaces, so "and" never cuts a tag
+const SEPARATOR = new RegExp(
+  posKey.separators.map((s) => (/^\p{L}+$/u.test(s) ? `\\s${escape(s)}\\s` : escape(s))).join("|"),
+  "u",
+);
+
+export interface PosReading {
+  /** canonical codes of the recognized parts, in printed order, without repeats */
+  codes: Pos[];
+  /** parts the key doesn't know, as printed */
+  unknown: string[];
+}
+
+/** Read a printed (possibly compound) POS tag against the key. */
+export function normalizePos(raw: string): PosReading {
+  const codes: Pos[] = [];
+  const unknown: string[] = [];
+  for (const part of raw.split(SEPARATOR).map((p) => p.trim()).filter((p) => p.length > 0)) {
+    const code = BY_KEY.get(matchKey(part));
+    if (code === undefined) unknown.push(part);
+    else if (!codes.includes(code)) codes.push(code);
+  }
+  return { codes, unknown };
+}
+
+/** True when every part of `raw` is in the key. */
+export function isPosTag(raw: string): boolean {
+  const { codes, unknown } = normalizePos(raw);
+  return codes.length > 0 && unknown.length === 0;
+}
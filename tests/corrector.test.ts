@@ -0,0 +1,1102 @@
+// tests/corrector.test.ts — HttpCorrector against a local stub server (T3), plus
+// the reply gate + re-prompt loop. No network, no API key: the stub speaks just
+// enough OpenAI chat-completions. Inputs come from docs/04-golden-fixtures.json.
+// Run: npm run build && npx tsx --test tests/corrector.test.ts
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, readdirSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import { execFileSync } from "node:child_process";
+import { deflateSync } from "node:zlib";
+
+import {
+  HttpCorrector,
+  CachingCorrector,
+  checkReply,
+  ConsensusCorrector,
+  correctWithRepair,
+  createCorrector,
+  extractJsonArray,
+  parseBatch,
+  parsePage,
+  RecordingCorrector,
+  ReplayCorrector,
+  UsageLedger,
+  BudgetExceededError,
+  ChatClient,
+  getPrompt,
+  invalidateCache,
+  summarizeCache,
+  MockCorrector,
+  RuleBasedCorrector,
+  HttpVisionReader,
+  PngPageImage,
+  decodePng,
+  encodePng,
+  extractVisionText,
+  ChunkingCorrector,
+  isLikelyHeadwordLine,
+  planChunks,
+  segmentLine,
+  type ColumnTranscript,
+  type CorrectedEntry,
+  type Corrector,
+  type CorrectorInfo,
+  type Line,
+  type LlmProfile,
+  type PageImage,
+  type PromptId,
+  type RepairFeedback,
+  type VisionReader,
+  type Word,
+} from "../dist/index.js";
+
+// ---------- fixtures ----------
+
+interface Fixture { fixture_id: string; input: ColumnTranscript; expected: CorrectedEntry[] }
+const { fixtures } = JSON.parse(
+  readFileSync("docs/04-golden-fixtures.json", "utf8"),
+) as { fixtures: Fixture[] };
+function fixture(prefix: string): Fixture {
+  const f = fixtures.find((x) => x.fixture_id.startsWith(prefix));
+  if (!f) throw new Error(`${prefix} fixture missing`);
+  return f;
+}
+const f1 = fixture("F1");
+const f6 = fixture("F6");
+
+// ---------- stub server ----------
+
+type Handler = (req: IncomingMessage, body: string, res: ServerResponse) => void;
+let handler: Handler = () => {};
+let calls: Array<{ headers: IncomingMessage["headers"]; body: string }> = [];
+let server: Server;
+let baseUrl = "";
+
+function completion(content: string): string {
+  return JSON.stringify({ choices: [{ message: { role: "assistant", content } }] });
+}
+
+function profile(): LlmProfile {
+  return { name: "frontier", model: "stub-model", baseUrl, apiKeyEnv: "STUB_LLM_KEY", vision: true };
+}
+
+const fast = { apiKey: "test-key", backoffMs: 1, timeoutMs: 500 };
+
+before(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (c: Buffer) => (body += c.toString()));
+    req.on("end", () => {
+      calls.push({ headers: req.headers, body });
+      handler(req, body, res);
+    });
+  });
+  await new Promise<void>((r) => server.listen(0, "127.0.0.1", r));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+});
+
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+function reset(h: Handler): void {
+  calls = [];
+  handler = h;
+}
+
+// ---------- tests ----------
+
+describe("extractJsonArray", () => {
+  it("strict array", () => {
+    assert.deepStrictEqual(extractJsonArray("[1,2]"), [1, 2]);
+  });
+
+  it("```json fenced array", () => {
+    assert.deepStrictEqual(extractJsonArray("```json\n[{\"a\":1}]\n```"), [{ a: 1 }]);
+  });
+
+  it("array wrapped in prose", () => {
+    assert.deepStrictEqual(extractJsonArray("Here are the entries:\n[1]\nDone."), [1]);
+  });
+
+  it("non-array JSON throws", () => {
+    assert.throws(() => extractJsonArray("{\"a\":1}"), /not a JSON array/);
+  });
+});
+
+describe("HttpCorrector", () => {
+  it("sends prompt + serialized transcript, returns parsed entries", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion("```json\n" + JSON.stringify(f1.expected) + "\n```"));
+    });
+    const out = await new HttpCorrector(profile(), fast).structure(f1.input);
+    assert.deepStrictEqual(out, f1.expected);
+
+    assert.strictEqual(calls.length, 1);
+    const call = calls[0]!;
+    assert.strictEqual(call.headers.authorization, "Bearer test-key");
+    const sent = JSON.parse(call.body) as {
+      model: string;
+      messages: Array<{ role: string; content: string }>;
+    };
+    assert.strictEqual(sent.model, "stub-model");
+    assert.strictEqual(sent.messages[0]?.content, getPrompt("t2-v1").text);
+    assert.deepStrictEqual(JSON.parse(sent.messages[1]?.content ?? ""), f1.input);
+  });
+
+  it("sends the prompt view: no symbol detail, rectified boxes, segments or quality", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion(JSON.stringify(f1.expected)));
+    });
+    const detailed: ColumnTranscript = {
+      ...f1.input,
+      lines: f1.input.lines.map((l) => ({
+        ...l,
+        segments: segmentLine(l.words),
+        quality: 1,
+        words: l.words.map((w) => ({
+          ...w,
+          rect: w.bbox,
+          symbols: [...w.text].map((text) => ({ text, confidence: 0.9, bbox: w.bbox, break: null })),
+        })),
+      })),
+    };
+    await new HttpCorrector(profile(), fast).structure(detailed);
+    const sent = JSON.parse(calls[0]!.body) as { messages: Array<{ content: string }> };
+    assert.deepStrictEqual(JSON.parse(sent.messages[1]?.content ?? ""), f1.input);
+  });
+
+  it("t2-v2 documents segments and sends each one's script and text", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion(JSON.stringify(f1.expected)));
+    });
+    const mixed = f1.input.lines.map((l) => ({ ...l, segments: segmentLine(l.words) }));
+    await new HttpCorrector(profile(), { ...fast, prompt: "t2-v2" }).structure({ ...f1.input, lines: mixed });
+    const sent = JSON.parse(calls[0]!.body) as { messages: Array<{ content: string }> };
+    assert.strictEqual(sent.messages[0]?.content, getPrompt("t2-v2").text);
+    assert.match(getPrompt("t2-v2").text, /read the segments, not\s+text/);
+    // furniture is stripped before the call (parser/noise.ts); the prompt says so
+    assert.match(getPrompt("t2-v2").text, /were removed before you got the\s+transcript/);
+    assert.doesNotMatch(getPrompt("t2-v2").text, /Drop\s+them/);
+    const lines = (JSON.parse(sent.messages[1]?.content ?? "") as ColumnTranscript).lines;
+    assert.deepStrictEqual(
+      lines.map((l) => l.segments),
+      mixed.map((l) => l.segments.map(({ script, text }) => ({ script, text }))),
+    );
+  });
+
+  it("retries 429 (honoring Retry-After) and 5xx, then succeeds", async () => {
+    const statuses = [429, 503];
+    reset((_req, _body, res) => {
+      const s = statuses.shift();
+      if (s !== undefined) {
+        res.writeHead(s, s === 429 ? { "retry-after": "0" } : {});
+        res.end("busy");
+        return;
+      }
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion(JSON.stringify(f1.expected)));
+    });
+    const out = await new HttpCorrector(profile(), fast).structure(f1.input);
+    assert.deepStrictEqual(out, f1.expected);
+    assert.strictEqual(calls.length, 3);
+  });
+
+  it("fails rather than wait out a Retry-After beyond maxRetryDelayMs", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(429, { "retry-after": "3600" });
+      res.end("slow down");
+    });
+    await assert.rejects(
+      new HttpCorrector(profile(), { ...fast, maxRetryDelayMs: 1000 }).structure(f1.input),
+      /HTTP 429.*Retry-After 3600s exceeds maxRetryDelayMs 1000/,
+    );
+    assert.strictEqual(calls.length, 1);
+  });
+
+  it("gives up after maxRetries on persistent 5xx", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(500);
+      res.end("down");
+    });
+    await assert.rejects(
+      new HttpCorrector(profile(), { ...fast, maxRetries: 2 }).structure(f1.input),
+      /giving up after 3 attempts.*HTTP 500/,
+    );
+    assert.strictEqual(calls.length, 3);
+  });
+
+  it("does not retry a 4xx client error", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(401);
+      res.end("bad key");
+    });
+    await assert.rejects(new HttpCorrector(profile(), fast).structure(f1.input), /HTTP 401/);
+    assert.strictEqual(calls.length, 1);
+  });
+
+  it("times out a hung request and retries it", async () => {
+    let n = 0;
+    reset((_req, _body, res) => {
+      if (n++ === 0) return; // never answer the first attempt
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion(JSON.stringify(f1.expected)));
+    });
+    const out = await new HttpCorrector(profile(), { ...fast, timeoutMs: 100 }).structure(f1.input);
+    assert.deepStrictEqual(out, f1.expected);
+    assert.strictEqual(calls.length, 2);
+  });
+
+  it("throws on a reply with no JSON array", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion("I cannot help with that."));
+    });
+    await assert.rejects(new HttpCorrector(profile(), fast).structure(f1.input), /not a JSON array/);
+  });
+
+  it("refuses to construct without an API key", () => {
+    delete process.env.STUB_LLM_KEY;
+    assert.throws(() => new HttpCorrector(profile()), /STUB_LLM_KEY/);
+  });
+});
+
+describe("createCorrector", () => {
+  it("mock profile -> MockCorrector", () => {
+    const c = createCorrector({ name: "mock", model: "mock", baseUrl: undefined, apiKeyEnv: "X", vision: false });
+    assert.ok(c instanceof MockCorrector);
+  });
+
+  it("frontier profile -> HttpCorrector", () => {
+    assert.ok(createCorrector(profile(), { apiKey: "k" }) instanceof HttpCorrector);
+  });
+
+  it("corrector info carries profile, model and prompt id for provenance", () => {
+    assert.deepStrictEqual(createCorrector(profile(), { apiKey: "k" }).info, {
+      profile: "frontier",
+      model: "stub-model",
+      prompt_version: "t2-v1",
+    });
+  });
+});
+
+describe("checkReply (reply gate)", () => {
+  for (const f of fixtures) {
+    it(`${f.fixture_id}: golden expected output passes`, () => {
+      const check = checkReply(f.expected, f.input);
+      assert.ok(check.ok, JSON.stringify(check.entries.map((e) => e.violations)));
+    });
+  }
+
+  it("schema failure is reported with its path, entry kept for review", () => {
+    const bad = { ...f1.expected[0], is_continuation: "no" };
+    const check = checkReply([bad], f1.input);
+    assert.strictEqual(check.ok, false);
+    assert.strictEqual(check.entries.length, 1);
+    assert.ok(check.entries[0]!.violations.some((v) => v.startsWith("schema: is_continuation")));
+  });
+
+  it("empty line_indices is a schema violation", () => {
+    const check = checkReply([{ ...f1.expected[0], line_indices: [], raw_ocr_snippet: "" }], f1.input);
+    assert.ok(check.entries[0]!.violations.some((v) => v.includes("line_indices")));
+  });
+
+  it("out-of-range, descending and gapped indices are flagged", () => {
+    const e = f1.expected[0]!;
+    const cases: Array<[number[], RegExp]> = [
+      [[0, 1, 2, 3, 9], /out of range/],
+      [[0, 2, 1, 3], /not strictly ascending/],
+      [[0, 1, 3], /gap: line 2/],
+    ];
+    for (const [line_indices, re] of cases) {
+      const check = checkReply([{ ...e, line_indices }], f1.input);
+      assert.ok(check.entries[0]!.violations.some((v) => re.test(v)), String(re));
+    }
+  });
+
+  it("citing a noise line and double-citing are flagged on both entries", () => {
+    const [abduction, abet] = f6.expected as [CorrectedEntry, CorrectedEntry];
+    const withHeader = { ...abduction, line_indices: [0, ...abduction.line_indices] };
+    let check = checkReply([withHeader, abet], f6.input);
+    assert.ok(check.entries[0]!.violations.some((v) => /line 0 \("A"\).*must not be cited/.test(v)));
+
+    const overlapping = { ...abet, line_indices: [9, ...abet.line_indices] };
+    check = checkReply([abduction, overlapping], f6.input);
+    assert.ok(check.entries[0]!.violations.some((v) => v.includes("line 9 is also cited by entry 1")));
+    assert.ok(check.entries[1]!.violations.some((v) => v.includes("line 9 is also cited by entry 0")));
+  });
+
+  it("raw_ocr_snippet must be the verbatim cited text", () => {
+    const check = checkReply([{ ...f1.expected[0], raw_ocr_snippet: "Abet (corrected)" }], f1.input);
+    assert.ok(check.entries[0]!.violations.some((v) => v.startsWith("raw_ocr_snippet")));
+  });
+});
+
+/** Replays a fixed list of replies and records the feedback it was given. */
+class ScriptedCorrector implements Corrector {
+  feedback: Array<RepairFeedback | undefined> = [];
+  readonly info: CorrectorInfo;
+  constructor(
+    private readonly replies: unknown[][],
+    info: Partial<CorrectorInfo> = {},
+  ) {
+    this.info = { profile: "frontier", model: "scripted", prompt_version: "t2-v1", ...info };
+  }
+  async structure(_t: ColumnTranscript, feedback?: RepairFeedback): Promise<CorrectedEntry[]> {
+    this.feedback.push(feedback);
+    return (this.replies.shift() ?? []) as CorrectedEntry[];
+  }
+}
+
+describe("correctWithRepair", () => {
+  const bad = [{ ...f1.expected[0], line_indices: [0, 1, 3], raw_ocr_snippet: "x" }];
+
+  it("re-prompts with the violations and returns the repaired reply", async () => {
+    const c = new ScriptedCorrector([bad, f1.expected]);
+    const out = await correctWithRepair(c, f1.input);
+    assert.deepStrictEqual(out.map((e) => e.entry), f1.expected);
+    assert.ok(out.every((e) => e.violations.length === 0));
+    assert.strictEqual(c.feedback.length, 2);
+    assert.strictEqual(c.feedback[0], undefined);
+    assert.deepStrictEqual(c.feedback[1]?.previous, bad);
+    assert.ok(c.feedback[1]?.violations.some((v) => v.includes("gap: line 2")));
+  });
+
+  it("stops after maxRepairs and returns the entries still carrying violations", async () => {
+    const c = new ScriptedCorrector([bad, bad, bad, f1.expected]);
+    const out = await correctWithRepair(c, f1.input, 2);
+    assert.strictEqual(c.feedback.length, 3);
+    assert.strictEqual(out.length, 1);
+    assert.ok(out[0]!.violations.length > 0);
+  });
+
+  it("HttpCorrector replays the rejected reply and the violations as a follow-up turn", async () => {
+    const replies = [JSON.stringify(bad), JSON.stringify(f1.expected)];
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion(replies.shift() ?? "[]"));
+    });
+    const out = await correctWithRepair(new HttpCorrector(profile(), fast), f1.input);
+    assert.ok(out.every((e) => e.violations.length === 0));
+    assert.strictEqual(calls.length, 2);
+    const second = JSON.parse(calls[1]!.body) as { messages: Array<{ role: string; content: string }> };
+    assert.deepStrictEqual(second.messages.map((m) => m.role), ["system", "user", "assistant", "user"]);
+    assert.match(second.messages[3]?.content ?? "", /gap: line 2/);
+  });
+});
+
+describe("CachingCorrector", () => {
+  const dir = mkdtempSync(join(tmpdir(), "corrector-cache-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+
+  it("misses once, then serves the stored reply without calling the inner corrector", async () => {
+    const inner = new ScriptedCorrector([f1.expected], { model: "m1" });
+    const cache = new CachingCorrector(inner, { dir });
+    assert.deepStrictEqual(await cache.structure(f1.input), f1.expected);
+    assert.deepStrictEqual(await cache.structure(f1.input), f1.expected);
+    assert.strictEqual(inner.feedback.length, 1);
+    assert.deepStrictEqual(cache.stats, { hits: 1, misses: 1 });
+
+    // a fresh instance over the same dir (a re-run) is a hit too
+    const rerun = new CachingCorrector(new ScriptedCorrector([], { model: "m1" }), { dir });
+    assert.deepStrictEqual(await rerun.structure(f1.input), f1.expected);
+    assert.deepStrictEqual(rerun.stats, { hits: 1, misses: 0 });
+  });
+
+  it("model, prompt version and transcript are all part of the key", async () => {
+    const m2 = new ScriptedCorrector([[]], { model: "m2" });
+    const v2 = new ScriptedCorrector([[]], { model: "m1", prompt_version: "t2-v2" as PromptId });
+    const m1 = new ScriptedCorrector([[]], { model: "m1" });
+    await new CachingCorrector(m2, { dir }).structure(f1.input);
+    await new CachingCorrector(v2, { dir }).structure(f1.input);
+    await new CachingCorrector(m1, { dir }).structure(f6.input);
+    assert.deepStrictEqual([m2, v2, m1].map((c) => c.feedback.length), [1, 1, 1]);
+    assert.strictEqual(readdirSync(dir).length, 4);
+  });
+
+  it("wraps the mock and caches its empty reply", async () => {
+    const cache = new CachingCorrector(new MockCorrector(), { dir });
+    assert.deepStrictEqual(await cache.structure(f1.input), []);
+    assert.deepStrictEqual(await cache.structure(f1.input), []);
+    assert.deepStrictEqual(cache.stats, { hits: 1, misses: 1 });
+  });
+
+  it("summarizes and invalidates by model / prompt version", async () => {
+    let s = await summarizeCache(dir);
+    assert.strictEqual(s.entries, 5);
+    assert.strictEqual(s.byModel.m1, 3);
+    assert.strictEqual(s.byPromptVersion["t2-v2"], 1);
+
+    assert.strictEqual(await invalidateCache({ promptVersion: "t2-v2" }, dir), 1);
+    assert.strictEqual(await invalidateCache({ model: "m1" }, dir), 2);
+    s = await summarizeCache(dir);
+    assert.deepStrictEqual(s.byModel, { m2: 1, mock: 1 });
+  });
+});
+
+// ---------- record / replay, end-to-end through parsePage ----------
+
+/** Minimal raw Vision page: one paragraph, one symbol per character. */
+function visionPage(words: Array<{ text: string; bbox: number[]; confidence: number | null }>): unknown {
+  return {
+    pages: [{
+      blocks: [{
+        paragraphs: [{
+          words: words.map(({ text, bbox: [x = 0, y = 0, w = 0, h = 0], confidence }) => ({
+            symbols: [...text].map((c) => ({ text: c })),
+            boundingBox: { vertices: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }] },
+            confidence,
+          })),
+        }],
+      }],
+    }],
+  };
+}
+
+// F1's words as the left column, the same words shifted past the gutter as the right.
+const f1Words = f1.input.lines.flatMap((l) => l.words);
+const syntheticPage = visionPage([
+  ...f1Words,
+  ...f1Words.map((w) => ({ ...w, bbox: [w.bbox[0] + 1100, w.bbox[1], w.bbox[2], w.bbox[3]] })),
+]);
+
+/** Stand-in live model: one entry per column citing every line. The first reply
+ *  per column skips a line, so the repair loop runs and its turn is recorded. */
+class EchoCorrector implements Corrector {
+  readonly info: CorrectorInfo = { profile: "frontier", model: "echo", prompt_version: "t2-v1" };
+  calls = 0;
+  async structure(t: ColumnTranscript, feedback?: RepairFeedback): Promise<CorrectedEntry[]> {
+    this.calls++;
+    const idx = feedback ? t.lines.map((_l, i) => i) : [0, 2];
+    return [{
+      headword_en: t.lines[0]?.text ?? "",
+      translation_fa: t.lines.filter((l) => l.script === "farsi").map((l) => l.text).join(" "),
+      definition_en: null,
+      pronunciation: null,
+      pos: null,
+      is_continuation: false,
+      raw_ocr_snippet: idx.map((i) => t.lines[i]?.text).join(" "),
+      line_indices: idx,
+    }];
+  }
+}
+
+describe("RecordingCorrector / ReplayCorrector", () => {
+  const dir = mkdtempSync(join(tmpdir(), "cassettes-"));
+  after(() => rmSync(dir, { recursive: true, force: true }));
+  const strip = (es: Array<{ provenance: unknown }>) => es.map(({ provenance: _p, ...e }) => e);
+
+  it("replay reproduces the recorded parsePage output with no live corrector", async () => {
+    const live = new EchoCorrector();
+    const recorded = await parsePage(syntheticPage, 7, new RecordingCorrector(live, dir));
+    assert.strictEqual(live.calls, 4); // 2 columns x (first reply + 1 repair)
+    assert.deepStrictEqual(readdirSync(dir).sort(), ["07-left.json", "07-right.json"]);
+    assert.strictEqual(recorded.length, 2);
+    assert.ok(recorded.every((e) => e.headword_en === "Abet"));
+
+    const replay = new ReplayCorrector(dir);
+    const replayed = await parsePage(syntheticPage, 7, replay);
+    assert.deepStrictEqual(strip(replayed), strip(recorded));
+    assert.strictEqual(replayed[0]?.provenance.model, "echo");
+  });
+
+  it("refuses a missing cassette and a transcript it was not recorded against", async () => {
+    const replay = new ReplayCorrector(dir);
+    await assert.rejects(parsePage(syntheticPage, 8, replay), /no cassette .*08-left\.json/);
+    const shifted = { ...f1.input, page_number: 7, lines: f1.input.lines.slice(1) };
+    await assert.rejects(replay.structure(shifted), /different transcript/);
+  });
+});
+
+describe("ConsensusCorrector", () => {
+  const [abduction, abet] = f6.expected as [CorrectedEntry, CorrectedEntry];
+  const pair = (a: unknown[], b: unknown[]) =>
+    new ConsensusCorrector([
+      new ScriptedCorrector([a], { profile: "frontier", model: "A" }),
+      new ScriptedCorrector([b], { profile: "deepseek", model: "B" }),
+    ]);
+
+  it("merges agreeing models into plain entries", async () => {
+    const out = await pair(f6.expected, f6.expected).structure(f6.input);
+    assert.deepStrictEqual(out, f6.expected);
+  });
+
+  it("differences in Farsi that normalization removes are not disagreements", async () => {
+    const arabicYeh = { ...abet, translation_fa: abet.translation_fa.replace(/\u06CC/g, "\u064A") };
+    const out = await pair(f6.expected, [abduction, arabicYeh]).structure(f6.input);
+    assert.strictEqual(out[1]?.disagreement, undefined);
+  });
+
+  it("headword / translation disagreement keeps both candidates on the entry", async () => {
+    const other = { ...abet, headword_en: "Abel", translation_fa: "تشویق" };
+    const out = await pair(f6.expected, [abduction, other]).structure(f6.input);
+    assert.strictEqual(out.length, 2);
+    assert.strictEqual(out[0]?.disagreement, undefined);
+    assert.deepStrictEqual(out[1]?.disagreement?.fields, ["headword_en", "translation_fa"]);
+    assert.deepStrictEqual(
+      out[1]?.disagreement?.candidates.map((c) => [c.profile, c.model, c.entries[0]?.headword_en]),
+      [["frontier", "A", "Abet"], ["deepseek", "B", "Abel"]],
+    );
+    assert.ok(checkReply(out, f6.input).ok, "merged reply still passes the gate");
+  });
+
+  it("segmentation disagreement emits the primary's entries, flagged, with all candidates", async () => {
+    // B glues Abduction and Abet into one entry spanning lines 1..13
+    const glued = {
+      ...abduction,
+      line_indices: [...abduction.line_indices, ...abet.line_indices],
+      raw_ocr_snippet: `${abduction.raw_ocr_snippet} ${abet.raw_ocr_snippet}`,
+    };
+    const out = await pair(f6.expected, [glued]).structure(f6.input);
+    assert.deepStrictEqual(out.map((e) => e.headword_en), ["Abduction", "Abet"]);
+    for (const e of out) {
+      assert.deepStrictEqual(e.disagreement?.fields, ["segmentation"]);
+      assert.deepStrictEqual(e.disagreement?.candidates.map((c) => c.entries.length), [2, 1]);
+    }
+  });
+
+  it("lines the primary left out keep every entry of the next model, flagged", async () => {
+    // A cites nothing; B splits the lines in two, C glues them into one
+    const glued = {
+      ...abduction,
+      line_indices: [...abduction.line_indices, ...abet.line_indices],
+      raw_ocr_snippet: `${abduction.raw_ocr_snippet} ${abet.raw_ocr_snippet}`,
+    };
+    const out = await new ConsensusCorrector([
+      new ScriptedCorrector([[]], { profile: "frontier", model: "A" }),
+      new ScriptedCorrector([f6.expected], { profile: "deepseek", model: "B" }),
+      new ScriptedCorrector([[glued]], { profile: "deepseek", model: "C" }),
+    ]).structure(f6.input);
+    assert.deepStrictEqual(out.map((e) => e.headword_en), ["Abduction", "Abet"]);
+    for (const e of out) {
+      assert.deepStrictEqual(e.disagreement?.fields, ["segmentation"]);
+      assert.deepStrictEqual(e.disagreement?.candidates.map((c) => c.entries.length), [0, 2, 1]);
+    }
+  });
+
+  it("provenance names every model; needs at least two correctors", () => {
+    assert.strictEqual(pair([], []).info.model, "A+B");
+    assert.throws(() => new ConsensusCorrector([new MockCorrector()]), /at least two/);
+  });
+
+  it("named profiles read their own model / key env vars", () => {
+    // PROFILES is read at module load, so build in a fresh process with the env set
+    const script = `
+      import { createConsensusCorrector } from "./dist/index.js";
+      const c = createConsensusCorrector(["frontier", "deepseek"]);
+      console.log(c.info.model);`;
+    const out = execFileSync(process.execPath, ["--input-type=module", "-e", script], {
+      env: {
+        PATH: process.env.PATH,
+        LLM_FRONTIER_MODEL: "frontier-x",
+        LLM_FRONTIER_API_KEY: "kf",
+        LLM_DEEPSEEK_MODEL: "deepseek-y",
+        DEEPSEEK_API_KEY: "kd",
+      },
+      encoding: "utf8",
+    });
+    assert.strictEqual(out.trim(), "frontier-x+deepseek-y");
+  });
+
+  it("parsePage carries the disagreement onto Entry and flags it", async () => {
+    const echo = new EchoCorrector();
+    const renamed = new (class extends EchoCorrector {
+      override async structure(t: ColumnTranscript, f?: RepairFeedback) {
+        return (await super.structure(t, f)).map((e) => ({ ...e, headword_en: "Abel" }));
+      }
+    })();
+    const entries = await parsePage(syntheticPage, 7, new ConsensusCorrector([echo, renamed]));
+    assert.strictEqual(entries.length, 2);
+    for (const e of entries) {
+      assert.strictEqual(e.needs_review, true);
+      assert.deepStrictEqual(e.disagreement?.fields, ["headword_en"]);
+    }
+  });
+});
+
+describe("usage accounting + budget", () => {
+  const pricing = { inputUsdPerMTok: 1, outputUsdPerMTok: 2 };
+
+  /** Stub model: cites every line of the column it was sent as one entry. */
+  function echoHandler(usage: boolean): Handler {
+    return (_req, body, res) => {
+      const sent = JSON.parse(body) as { messages: Array<{ content: string }> };
+      const t = JSON.parse(sent.messages[1]?.content ?? "{}") as ColumnTranscript;
+      const reply = [{
+        headword_en: t.lines[0]?.text ?? "",
+        translation_fa: "",
+        definition_en: null,
+        pronunciation: null,
+        pos: null,
+        is_continuation: false,
+        raw_ocr_snippet: t.lines.map((l) => l.text).join(" "),
+        line_indices: t.lines.map((_l, i) => i),
+      }];
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(JSON.stringify({
+        choices: [{ message: { content: JSON.stringify(reply) } }],
+        ...(usage ? { usage: { prompt_tokens: 1000, completion_tokens: 500 } } : {}),
+      }));
+    };
+  }
+
+  it("a price override applies to its own profile only", () => {
+    const script = `
+      import { pricingFor } from "./dist/index.js";
+      console.log(JSON.stringify([pricingFor("frontier"), pricingFor("deepseek")]));`;
+    const out = execFileSync(process.execPath, ["--input-type=module", "-e", script], {
+      env: { PATH: process.env.PATH, LLM_FRONTIER_PRICE_INPUT: "5", LLM_DEEPSEEK_PRICE_OUTPUT: "2" },
+      encoding: "utf8",
+    });
+    assert.deepStrictEqual(JSON.parse(out), [
+      { inputUsdPerMTok: 5, outputUsdPerMTok: 15 },
+      { inputUsdPerMTok: 0.27, outputUsdPerMTok: 2 },
+    ]);
+  });
+
+  it("records provider-reported tokens, latency and cost per call, aggregated per page", async () => {
+    reset(echoHandler(true));
+    const ledger = new UsageLedger();
+    const c = new HttpCorrector(profile(), { ...fast, ledger, pricing });
+    await parsePage(syntheticPage, 7, c);
+    await parsePage(syntheticPage, 8, c);
+
+    assert.strictEqual(ledger.calls.length, 4);
+    const call = ledger.calls[0]!;
+    assert.deepStrictEqual(
+      [call.page_number, call.column, call.prompt_tokens, call.completion_tokens, call.estimated],
+      [7, "left", 1000, 500, false],
+    );
+    assert.ok(call.latency_ms >= 0);
+    assert.strictEqual(call.cost_usd, (1000 * 1 + 500 * 2) / 1e6);
+
+    const s = ledger.summary();
+    assert.strictEqual(s.total.calls, 4);
+    assert.strictEqual(s.total.prompt_tokens, 4000);
+    assert.deepStrictEqual(Object.keys(s.by_page), ["7", "8"]);
+    assert.strictEqual(s.by_page[7]?.calls, 2);
+    assert.ok(Math.abs(s.total.cost_usd - 4 * 0.002) < 1e-12);
+  });
+
+  it("estimates tokens when the provider sends no usage block", async () => {
+    reset(echoHandler(false));
+    const ledger = new UsageLedger();
+    await new HttpCorrector(profile(), { ...fast, ledger, pricing }).structure(f1.input);
+    assert.strictEqual(ledger.calls[0]?.estimated, true);
+    assert.ok((ledger.calls[0]?.prompt_tokens ?? 0) > 0);
+  });
+
+  it("concurrent calls reserve against each other, not just against recorded spend", async () => {
+    reset(echoHandler(true));
+    // worst case per call: 3000 completion tokens at $2/M = $0.006+, so two in flight
+    // exceed $0.01 even though each then costs only $0.002
+    const ledger = new UsageLedger(0.01);
+    const chat = new ChatClient(profile(), { ...fast, ledger, pricing, maxCompletionTokens: 3000 });
+    const messages = [
+      { role: "system" as const, content: "" },
+      { role: "user" as const, content: JSON.stringify(f1.input) },
+    ];
+    const results = await Promise.allSettled([
+      chat.complete(messages, { page_number: 7, column: "left" }),
+      chat.complete(messages, { page_number: 7, column: "right" }),
+    ]);
+    assert.deepStrictEqual(results.map((r) => r.status), ["fulfilled", "rejected"]);
+    assert.ok(results[1]?.status === "rejected" && results[1].reason instanceof BudgetExceededError);
+    assert.strictEqual(calls.length, 1);
+    assert.strictEqual(ledger.reservedUsd, 0);
+    assert.ok(ledger.spentUsd <= 0.01);
+  });
+
+  it("a failed call releases its reservation", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(401);
+      res.end("bad key");
+    });
+    const ledger = new UsageLedger(0.01);
+    const chat = new ChatClient(profile(), { ...fast, ledger, pricing, maxCompletionTokens: 3000 });
+    const messages = [
+      { role: "system" as const, content: "" },
+      { role: "user" as const, content: JSON.stringify(f1.input) },
+    ];
+    await assert.rejects(chat.complete(messages, { page_number: 7, column: "left" }), /HTTP 401/);
+    assert.strictEqual(ledger.reservedUsd, 0);
+    reset(echoHandler(true));
+    await chat.complete(messages, { page_number: 7, column: "left" });
+    assert.strictEqual(ledger.calls.length, 1);
+  });
+
+  it("parseBatch stops cleanly before a call that could exceed the budget", async () => {
+    reset(echoHandler(true));
+    // Each call reserves its worst case (prompt estimate + 1000 completion tokens at
+    // $2/M = $0.002+), then actually costs $0.002. Budget covers one page, not two.
+    const ledger = new UsageLedger(0.009);
+    const c = new HttpCorrector(profile(), { ...fast, ledger, pricing, maxCompletionTokens: 1000 });
+    const batch = await parseBatch(
+      [7, 8, 9].map((page_number) => ({ raw: syntheticPage, page_number })),
+      c,
+    );
+    assert.deepStrictEqual(batch.pages.map((p) => p.page_number), [7]);
+    assert.strictEqual(batch.stopped?.page_number, 8);
+    assert.match(batch.stopped?.reason ?? "", /budget exceeded/);
+    assert.ok(ledger.spentUsd <= 0.009);
+    assert.ok(batch.pages[0]!.entries.every((e) => e.provenance.run_id === batch.run_id));
+  });
+});
+
+describe("vision re-read of low-confidence lines", () => {
+  it("PngPageImage crops a padded, clamped bbox losslessly", async () => {
+    // 40x20 RGB gradient: pixel (x, y) = [x, y, x + y]
+    const width = 40, height = 20;
+    const pixels = Buffer.alloc(width * height * 3);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) pixels.set([x, y, x + y], (y * width + x) * 3);
+    }
+    const png = encodePng({ width, height, colorType: 2, pixels, palette: null, transparency: null });
+    const { mime_type, data } = await PngPageImage.fromBuffer(png).crop([10, 2, 5, 4], 3);
+    assert.strictEqual(mime_type, "image/png");
+    const out = decodePng(data);
+    // [7, -1, 11, 10] clamped to the image -> x 7..17, y 0..8
+    assert.deepStrictEqual([out.width, out.height], [11, 9]);
+    assert.deepStrictEqual([...out.pixels.subarray(0, 3)], [7, 0, 7]);
+    assert.throws(() => decodePng(Buffer.from("not a png")), /not a PNG/);
+  });
+
+  /** A PNG from packed rows (filter 0 prepended); decodePng doesn't check CRCs. */
+  function pngOf(
+    [width, height, bitDepth, colorType, interlace]: [number, number, number, number, number],
+    rows: number[][],
+    extra: Array<[string, Buffer]> = [],
+  ): Buffer {
+    const chunk = (type: string, data: Buffer) => {
+      const head = Buffer.alloc(8);
+      head.writeUInt32BE(data.length, 0);
+      head.write(type, 4, "latin1");
+      return Buffer.concat([head, data, Buffer.alloc(4)]);
+    };
+    const ihdr = Buffer.alloc(13);
+    ihdr.writeUInt32BE(width, 0);
+    ihdr.writeUInt32BE(height, 4);
+    ihdr.set([bitDepth, colorType, 0, 0, interlace], 8);
+    const raw = Buffer.from(rows.flatMap((r) => [0, ...r]));
+    return Buffer.concat([
+      Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+      chunk("IHDR", ihdr),
+      ...extra.map(([type, data]) => chunk(type, data)),
+      chunk("IDAT", deflateSync(raw)),
+      chunk("IEND", Buffer.alloc(0)),
+    ]);
+  }
+
+  it("decodePng refuses an interlaced PNG", () => {
+    assert.throws(() => decodePng(pngOf([2, 1, 8, 0, 1], [[0, 0]])), /interlaced PNG not supported/);
+  });
+
+  it("a 2-bit palette PNG keeps its indices and palette through a crop", async () => {
+    const palette = Buffer.from([0, 0, 0, 255, 0, 0, 0, 255, 0, 0, 0, 255]);
+    const png = pngOf([4, 1, 2, 3, 0], [[0b00011011]], [["PLTE", palette]]);
+    assert.deepStrictEqual([...decodePng(png).pixels], [0, 1, 2, 3]);
+    const out = decodePng((await PngPageImage.fromBuffer(png).crop([1, 0, 2, 1], 0)).data);
+    assert.deepStrictEqual([out.colorType, [...out.pixels]], [3, [1, 2]]);
+    assert.deepStrictEqual(out.palette, palette);
+  });
+
+  it("gray below 8 bits scales to 0-255; 16 bits keep the high byte", () => {
+    assert.deepStrictEqual([...decodePng(pngOf([8, 1, 1, 0, 0], [[0b10100000]])).pixels], [255, 0, 255, 0, 0, 0, 0, 0]);
+    assert.deepStrictEqual([...decodePng(pngOf([2, 1, 4, 0, 0], [[0xf0]])).pixels], [255, 0]);
+    assert.deepStrictEqual([...decodePng(pngOf([2, 1, 16, 0, 0], [[0x12, 0x34, 0xab, 0xcd]])).pixels], [0x12, 0xab]);
+  });
+
+  it("HttpVisionReader sends the crop as an image part and reads {text}", async () => {
+    reset((_req, _body, res) => {
+      res.writeHead(200, { "content-type": "application/json" });
+      res.end(completion('```json\n{"text": "Abet"}\n```'));
+    });
+    const line = f1.input.lines[0]!;
+    const crop = { mime_type: "image/png", data: Buffer.from([1, 2, 3]) };
+    const text = await new HttpVisionReader(profile(), fast).reread(crop, line, { page_number: 5, column: "left" });
+    assert.strictEqual(text, "Abet");
+
+    const sent = JSON.parse(calls[0]!.body) as {
+      messages: Array<{ role: string; content: Array<{ type: string; text?: string; image_url?: { url: string } }> }>;
+    };
+    const parts = sent.messages[1]!.content;
+    assert.strictEqual(JSON.parse(parts[0]!.text!).ocr_text, line.text);
+    assert.strictEqual(parts[1]!.image_url!.url, "data:image/png;base64,AQID");
+    assert.throws(() => extractVisionText("[1]"), /not \{"text": string\}/);
+  });
+
+  it("refuses a profile without image input", () => {
+    assert.throws(() => new HttpVisionReader({ ...profile(), vision: false }, fast), /does not accept images/);
+  });
+
+  it("parsePage attaches readings for low-confidence cited lines only, once per line", async () => {
+    const reads: string[] = [];
+    const reader: VisionReader = {
+      info: { profile: "frontier", model: "vlm", prompt_version: "vlm-line-v1" },
+      async reread(_crop, line) {
+        reads.push(line.text);
+        return line.text.replace("Abet", "Abel");
+      },
+    };
+    const crops: Array<[number, number, number, number]> = [];
+    const image: PageImage = {
+      async crop(bbox) {
+        crops.push(bbox);
+        return { mime_type: "image/png", data: Buffer.alloc(0) };
+      },
+    };
+    const lowest = Math.min(...f1.input.lines.map((l) => l.avgConfidence ?? 1));
+    const entries = await parsePage(syntheticPage, 7, new EchoCorrector(), undefined, {
+      reader,
+      image,
+      threshold: lowest + 1e-9, // exactly the weakest line(s) qualify
+    });
+    assert.strictEqual(entries.length, 2);
+    for (const e of entries) {
+      const rr = e.vision_reread;
+      assert.ok(rr, "low-confidence line re-read");
+      assert.deepStrictEqual([rr.model, rr.prompt_version], ["vlm", "vlm-line-v1"]);
+      assert.ok(rr.readings.length >= 1);
+      // text correction untouched; the reading sits beside it
+      assert.strictEqual(e.headword_en, "Abet");
+    }
+    assert.strictEqual(reads.length, crops.length);
+    assert.strictEqual(reads.length, entries.flatMap((e) => e.vision_reread?.readings ?? []).length);
+
+    const none = await parsePage(syntheticPage, 7, new EchoCorrector(), undefined, { reader, image, threshold: 0 });
+    assert.ok(none.every((e) => e.vision_reread === null));
+  });
+
+  it("a scan that can't be decoded leaves the entries text-only, flagged", async () => {
+    const reader: VisionReader = {
+      info: { profile: "frontier", model: "vlm", prompt_version: "vlm-line-v1" },
+      async reread() {
+        throw new Error("never called");
+      },
+    };
+    const image = PngPageImage.fromBuffer(pngOf([2, 1, 8, 0, 1], [[0, 0]]));
+    const entries = await parsePage(syntheticPage, 7, new EchoCorrector(), undefined, { reader, image, threshold: 1.1 });
+    assert.strictEqual(entries.length, 2);
+    for (const e of entries) {
+      assert.strictEqual(e.vision_reread, null);
+      assert.strictEqual(e.headword_en, "Abet");
+      const reason = e.review_reasons.find((r) => r.code === "vision_unavailable");
+      assert.match(reason?.code === "vision_unavailable" ? reason.message : "", /interlaced PNG not supported/);
+    }
+  });
+});
+
+describe("ChunkingCorrector", () => {
+  // 30 synthetic entries of 3 lines each: headword / Farsi / definition.
+  const lineAt = (text: string, script: "latin" | "farsi", y: number): Line => {
+    const words = text.split(" ").map((t): Word => ({ text: t, bbox: [190, y, 50, 50], languageCode: null, confidence: 0.95 }));
+    return {
+      text,
+      script,
+      yTop: y,
+      bbox: [190, y, 200, 50],
+      avgConfidence: 0.95,
+      minConfidence: 0.95,
+      words,
+      segments: segmentLine(words),
+      noise: null,
+      quality: 1,
+    };
+  };
+  const long: ColumnTranscript = {
+    page_number: 9,
+    column: "left",
+    column_index: 0,
+    lines: Array.from({ length: 30 }, (_v, k) => [
+      lineAt(`Term${k}`, "latin", k * 200),
+      lineAt("تعریف", "farsi", k * 200 + 60),
+      lineAt(`Definition number ${k} of the term in full`, "latin", k * 200 + 120),
+    ]).flat(),
+  };
+
+  /** Segments on the same cue the planner cuts at; a window that opens mid-entry
+   *  yields a leading fragment, like a real model would. */
+  class HeadwordSegmenter implements Corrector {
+    readonly info: CorrectorInfo = { profile: "frontier", model: "seg", prompt_version: "t2-v1" };
+    sizes: number[] = [];
+    async structure(t: ColumnTranscript): Promise<CorrectedEntry[]> {
+      this.sizes.push(t.lines.length);
+      const starts = t.lines.flatMap((l, i) => (i === 0 || (l.script === "latin" && l.words.length === 1) ? [i] : []));
+      return starts.map((s, k) => {
+        const idx = Array.from({ length: (starts[k + 1] ?? t.lines.length) - s }, (_v, j) => s + j);
+        return {
+          headword_en: t.lines[s]!.text,
+          translation_fa: "تعریف",
+          definition_en: null,
+          pronunciation: null,
+          pos: null,
+          is_continuation: false,
+          raw_ocr_snippet: idx.map((i) => t.lines[i]!.text).join(" "),
+          line_indices: idx,
+        };
+      });
+    }
+  }
+
+  it("plans windows within maxLines, cut just before headword lines, overlapping", () => {
+    const chunks = planChunks(long.lines, { maxLines: 20, overlap: 3 });
+    assert.ok(chunks.length > 1);
+    assert.strictEqual(chunks[0]!.start, 0);
+    assert.strictEqual(chunks.at(-1)!.end, long.lines.length);
+    for (const [k, c] of chunks.entries()) {
+      assert.ok(c.end - c.start <= 20, `chunk ${k} too long`);
+      if (k > 0) {
+        assert.ok(isLikelyHeadwordLine(long.lines, c.ownFrom), `cut ${c.ownFrom} not at a headword`);
+        assert.strictEqual(c.ownFrom, chunks[k - 1]!.ownTo);
+        assert.strictEqual(c.start, c.ownFrom - 3);
+      }
+    }
+    assert.deepStrictEqual(planChunks(f1.input.lines), [{ start: 0, end: 4, ownFrom: 0, ownTo: 4 }]);
+    assert.throws(() => planChunks(long.lines, { maxLines: 6, overlap: 3 }), /twice the overlap/);
+  });
+
+  it("merged windowed reply equals the single-call reply", async () => {
+    const whole = await new HeadwordSegmenter().structure(long);
+    const seg = new HeadwordSegmenter();
+    const merged = await new ChunkingCorrector(seg, { maxLines: 20, overlap: 3 }).structure(long);
+    assert.ok(seg.sizes.length > 1 && seg.sizes.every((n) => n <= 20));
+    assert.deepStrictEqual(merged, whole);
+    assert.ok(checkReply(merged, long).ok);
+  });
+
+  it("each window of a long column is recorded and replayed on its own", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "cassettes-"));
+    try {
+      const options = { maxLines: 20, overlap: 3 };
+      const seg = new HeadwordSegmenter();
+      const recorded = await new ChunkingCorrector(new RecordingCorrector(seg, dir), options).structure(long);
+      assert.deepStrictEqual(readdirSync(dir), ["09-left.json"]);
+      const cassette = JSON.parse(readFileSync(join(dir, "09-left.json"), "utf8")) as { windows: unknown[] };
+      assert.strictEqual(cassette.windows.length, seg.sizes.length);
+      const replayed = await new ChunkingCorrector(new ReplayCorrector(dir), options).structure(long);
+      assert.deepStrictEqual(replayed, recorded);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it("an owned entry longer than its window is marked truncated, not passed as whole", async () => {
+    // Term1 runs 22 lines: with no headword to cut at, the cut falls inside it
+    const defs = Array.from({ length: 20 }, (_v, k) => lineAt(`and so the text of Term1 goes on ${k}`, "latin", 700 + k * 60));
+    const lines = [
+      ...long.lines.slice(0, 3),
+      lineAt("Term1", "latin", 600),
+      lineAt("تعریف", "farsi", 650),
+      ...defs,
+      ...long.lines.slice(6, 15).map((l, k) => ({ ...l, yTop: 2000 + k * 60 })),
+    ];
+    const t: ColumnTranscript = { ...long, lines };
+    const options = { maxLines: 20, overlap: 3 };
+    const [first] = planChunks(lines, options);
+    assert.strictEqual(first!.ownTo, 17, "cut inside Term1");
+    const merged = await new ChunkingCorrector(new HeadwordSegmenter(), options).structure(t);
+    const term1 = merged.find((e) => e.headword_en === "Term1");
+    assert.strictEqual(term1?.truncated_at, first!.end - 1);
+    assert.deepStrictEqual(merged.filter((e) => e.truncated_at !== undefined), [term1]);
+  });
+
+  it("windows are repaired one by one; the merged column takes no repair round", async () => {
+    /** First reply per window cites nothing; the repaired one is the segmenter's. */
+    class Sloppy extends HeadwordSegmenter {
+      repairs = 0;
+      override async structure(t: ColumnTranscript, f?: RepairFeedback): Promise<CorrectedEntry[]> {
+        const good = await super.structure(t);
+        if (f) this.repairs++;
+        return f ? good : good.map((e) => ({ ...e, line_indices: [] }));
+      }
+    }
+    const options = { maxLines: 20, overlap: 3 };
+    const sloppy = new Sloppy();
+    const chunked = new ChunkingCorrector(sloppy, options);
+    const merged = await chunked.structure(long);
+    assert.strictEqual(sloppy.repairs, chunked.plan(long).length);
+    assert.ok(checkReply(merged, long).ok);
+    await assert.rejects(chunked.structure(long, { previous: merged, violations: ["x"] }), /repaired per window/);
+  });
+
+  it("short columns go straight through; info is the inner corrector's", async () => {
+    const seg = new HeadwordSegmenter();
+    const c = new ChunkingCorrector(seg);
+    await c.structure(f1.input);
+    assert.deepStrictEqual(seg.sizes, [4]);
+    assert.strictEqual(c.info.model, "seg");
+  });
+});
+
+describe("POS normalization (toEntry)", () => {
+  /** One entry per column citing every line, with the given printed POS. */
+  const tagging = (pos: string): Corrector => ({
+    info: { profile: "frontier", model: "pos", prompt_version: "t2-v1" },
+    async structure(t: ColumnTranscript): Promise<CorrectedEntry[]> {
+      return [{
+        headword_en: "Abet",
+        translation_fa: t.lines.filter((l) => l.script === "farsi").map((l) => l.text).join(" "),
+        definition_en: null,
+        pronunciation: null,
+        pos,
+        is_continuation: false,
+        raw_ocr_snippet: t.lines.map((l) => l.text).join(" "),
+        line_indices: t.lines.map((_l, i) => i),
+      }];
+    },
+  });
+
+  it("a printed tag is stored as canonical codes", async () => {
+    const [e] = await parsePage(syntheticPage, 7, tagging("N. & v.t."));
+    assert.deepStrictEqual(e?.pos, ["n", "vt"]);
+    assert.ok(!e?.review_reasons.some((r) => r.code === "unknown_pos"));
+  });
+
+  it("an abbreviation outside the key is a review reason, not a stored value", async () => {
+    const [e] = await parsePage(syntheticPage, 7, tagging("n. & xyz."));
+    assert.deepStrictEqual(e?.pos, ["n"]);
+    assert.ok(e?.review_reasons.some((r) => r.code === "unknown_pos" && r.unknown[0] === "xyz."));
+    assert.strictEqual(e?.needs_review, true);
+  });
+});
+
+describe("RuleBasedCorrector", () => {
+  for (const f of fixtures) {
+    it(`${f.fixture_id}: reproduces the golden output with no model`, async () => {
+      assert.deepStrictEqual(await new RuleBasedCorrector().structure(f.input), f.expected);
+    });
+  }
+
+  it("indented or cross-ref lines never start an entry; trailing POS is split off", async () => {
+    const lines = f1.input.lines.map((l) => ({ ...l }));
+    lines[0] = { ...lines[0]!, text: "Abet v." };
+    const [abet] = await new RuleBasedCorrector().structure({ ...f1.input, lines });
+    assert.deepStrictEqual([abet?.headword_en, abet?.pos], ["Abet", "v."]);
+    lines[0] = { ...lines[0]!, text: "Abet n. & v.t." };
+    const [compound] = await new RuleBasedCorrector().structure({ ...f1.input, lines });
+    assert.deepStrictEqual([compound?.headword_en, compound?.pos], ["Abet", "n. & v.t."]);
+
+    // "Abet" (line 10) pushed right of the margin reads as a continuation line
+    const indented = f6.input.lines.map((l, i) =>
+      i === 10 ? { ...l, bbox: [300, l.bbox[1], l.bbox[2], l.bbox[3]] as [number, number, number, number] } : l,
+    );
+    const out = await new RuleBasedCorrector().structure({ ...f6.input, lines: indented });
+    assert.deepStrictEqual(out.map((e) => e.headword_en), ["Abduction"]);
+  });
+
+  it("rules profile: zero-cost offline parsePage, provenance names the rule set", async () => {
+    const c = createCorrector({ name: "rules", model: "rules", baseUrl: undefined, apiKeyEnv: "X", vision: false });
+    assert.ok(c instanceof RuleBasedCorrector);
+    const entries = await parsePage(syntheticPage, 7, c);
+    assert.deepStrictEqual(entries.map((e) => [e.source_image.column, e.headword_en]), [["left", "Abet"], ["right", "Abet"]]);
+    assert.deepStrictEqual(entries[0]?.provenance.prompt_version, "rules-v2");
+  });
+});
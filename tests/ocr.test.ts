@@ -0,0 +1,178 @@
+// tests/ocr.test.ts — OCR input adapters (src/ocr/input.ts): Vision JSON wrappers,
+// multi-page responses, Tesseract hOCR, ALTO XML. Inline samples, no data files.
+// Run: npm run build && npx tsx --test tests/ocr.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  buildColumnTranscripts,
+  detectOcrFormat,
+  groupIntoLines,
+  readOcrPages,
+  readOcrWords,
+  readVisionPages,
+  readVisionWords,
+} from "../dist/index.js";
+
+// ---------- samples ----------
+
+/** A bare Vision annotation holding the given words, one symbol per character. */
+function annotation(...texts: string[]) {
+  const box = (x: number) => ({ vertices: [{ x, y: 100 }, { x: x + 50, y: 100 }, { x: x + 50, y: 130 }, { x, y: 130 }] });
+  return {
+    text: texts.join(" "),
+    pages: [{
+      blocks: [{
+        paragraphs: [{
+          words: texts.map((t, i) => ({ boundingBox: box(100 + 60 * i), confidence: 0.9, symbols: [...t].map((c) => ({ text: c })) })),
+        }],
+      }],
+    }],
+  };
+}
+
+const HOCR = `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.0 Transitional//EN" "http://www.w3.org/TR/xhtml1/DTD/xhtml1-transitional.dtd">
+<html xmlns="http://www.w3.org/1999/xhtml" xml:lang="en" lang="en">
+ <head><meta name='ocr-system' content='tesseract 5.3.0'><title></title></head>
+ <body>
+  <div class='ocr_page' id='page_1' title='image "07.png"; bbox 0 0 2480 3508; ppageno 0'>
+   <div class='ocr_carea' id='block_1_1' title="bbox 100 100 900 200">
+    <p class='ocr_par' id='par_1_1' lang='eng'>
+     <span class='ocr_line' id='line_1_1' title="bbox 100 100 400 130; baseline 0 -5">
+      <span class='ocrx_word' id='word_1_1' title='bbox 100 100 180 130; x_wconf 96'><strong>Abet</strong></span>
+      <span class='ocrx_word' id='word_1_2' title='bbox 190 100 260 130; x_wconf 91'>A&amp;B</span>
+     </span>
+    </p>
+    <p class='ocr_par' id='par_1_2' lang='fas' dir='rtl'>
+     <span class='ocr_line' id='line_1_2' title="bbox 100 150 400 180">
+      <span class='ocrx_word' id='word_1_3' title='bbox 300 150 400 180; x_wconf 88'>تحریک</span>
+      <span class='ocrx_word' id='word_1_4' title='bbox 200 150 290 180; x_wconf 70'>کردن</span>
+     </span>
+    </p>
+   </div>
+  </div>
+ </body>
+</html>`;
+
+const ALTO = `<?xml version="1.0" encoding="UTF-8"?>
+<alto xmlns="http://www.loc.gov/standards/alto/ns-v4#">
+  <Description><MeasurementUnit>pixel</MeasurementUnit></Description>
+  <Layout>
+    <Page ID="p1" PHYSICAL_IMG_NR="7" WIDTH="2480" HEIGHT="3508">
+      <PrintSpace>
+        <TextBlock ID="b1">
+          <TextLine ID="l1" HPOS="100" VPOS="300" WIDTH="300" HEIGHT="30">
+            <String CONTENT="The" HPOS="100" VPOS="300" WIDTH="60" HEIGHT="30" WC="0.97"/>
+            <SP/>
+            <String CONTENT="con" HPOS="180" VPOS="300" WIDTH="60" HEIGHT="30" WC="0.95"/>
+            <HYP CONTENT="-"/>
+          </TextLine>
+          <TextLine ID="l2" HPOS="100" VPOS="340" WIDTH="300" HEIGHT="30">
+            <String CONTENT="sideration" HPOS="100" VPOS="340" WIDTH="180" HEIGHT="30" WC="0.9"/>
+            <SP/>
+            <String CONTENT="paid" HPOS="300" VPOS="340" WIDTH="70" HEIGHT="30" WC="0.9"/>
+          </TextLine>
+        </TextBlock>
+      </PrintSpace>
+    </Page>
+    <Page ID="p2" PHYSICAL_IMG_NR="8" WIDTH="2480" HEIGHT="3508">
+      <PrintSpace>
+        <TextBlock ID="b2">
+          <TextLine ID="l3" HPOS="100" VPOS="300" WIDTH="60" HEIGHT="30">
+            <String CONTENT="Abide" HPOS="100" VPOS="300" WIDTH="60" HEIGHT="30"/>
+          </TextLine>
+        </TextBlock>
+      </PrintSpace>
+    </Page>
+  </Layout>
+</alto>`;
+
+// ---------- tests ----------
+
+describe("Vision JSON wrappers (ocr/vision-json.ts)", () => {
+  const bare = annotation("Abet", "n.");
+
+  it("bare, fullTextAnnotation, responses[0] and JSON text read the same", () => {
+    const expected = readOcrWords(bare).map((w) => w.text);
+    assert.deepStrictEqual(expected, ["Abet", "n."]);
+    for (const raw of [
+      { fullTextAnnotation: bare },
+      { responses: [{ fullTextAnnotation: bare }] },
+      JSON.stringify({ responses: [{ fullTextAnnotation: bare }] }),
+    ]) {
+      assert.strictEqual(detectOcrFormat(raw), "vision");
+      assert.deepStrictEqual(readOcrWords(raw).map((w) => w.text), expected);
+    }
+  });
+
+  it("multi-page responses keep page order, blank pages included", () => {
+    const raw = {
+      responses: [{
+        responses: [
+          { fullTextAnnotation: annotation("Abet"), context: { pageNumber: 1 } },
+          { context: { pageNumber: 2 } },
+          { fullTextAnnotation: annotation("Abide", "by"), context: { pageNumber: 3 } },
+        ],
+      }],
+    };
+    assert.deepStrictEqual(readOcrPages(raw).map((p) => p.length), [1, 0, 2]);
+    assert.throws(() => readOcrWords(raw), /3 pages/);
+  });
+
+  it("an error response is thrown, not read as a blank page", () => {
+    assert.throws(() => readOcrPages({ responses: [{ error: { message: "quota" } }] }), /quota/);
+  });
+
+  it("unrecognized input is refused", () => {
+    assert.strictEqual(detectOcrFormat({ words: [] }), null);
+    assert.throws(() => readOcrPages("plain text"), /unrecognized OCR input/);
+  });
+
+  it("both Vision readers name every wrapper they accept", () => {
+    const accepted = /not Vision JSON \(no responses\[\], fullTextAnnotation or pages\[\]\)/;
+    assert.throws(() => readVisionPages({ words: [] }), accepted);
+    assert.throws(() => readVisionWords({ words: [] }), accepted);
+  });
+});
+
+describe("hOCR and ALTO (ocr/xml-ocr.ts)", () => {
+  it("hOCR: boxes, x_wconf, inherited lang, entities, line-end breaks", () => {
+    assert.strictEqual(detectOcrFormat(HOCR), "hocr");
+    const words = readOcrWords(HOCR);
+    assert.deepStrictEqual(
+      words.map((w) => [w.text, w.languageCode, w.confidence, w.break]),
+      [
+        ["Abet", "eng", 0.96, "SPACE"],
+        ["A&B", "eng", 0.91, "EOL_SURE_SPACE"],
+        ["تحریک", "fas", 0.88, "SPACE"],
+        ["کردن", "fas", 0.7, "EOL_SURE_SPACE"],
+      ],
+    );
+    assert.deepStrictEqual(words[0]!.bbox, [100, 100, 80, 30]);
+    assert.deepStrictEqual(groupIntoLines(words).map((l) => l.text), ["Abet A&B", "تحریک کردن"]);
+  });
+
+  it("ALTO: pages, WC, HYP rejoined across the line end", () => {
+    assert.strictEqual(detectOcrFormat(ALTO), "alto");
+    const [first, second] = readOcrPages(ALTO);
+    assert.deepStrictEqual(first!.map((w) => [w.text, w.break]), [
+      ["The", "SPACE"],
+      ["con", "HYPHEN"],
+      ["sideration", "SPACE"],
+      ["paid", "EOL_SURE_SPACE"],
+    ]);
+    assert.strictEqual(first![0]!.confidence, 0.97);
+    assert.deepStrictEqual(second!.map((w) => w.text), ["Abide"]);
+    assert.deepStrictEqual(groupIntoLines(first!).map((l) => l.text), ["The consideration", "paid"]);
+  });
+
+  it("ALTO in other measurement units is refused", () => {
+    assert.throws(() => readOcrPages(ALTO.replace(">pixel<", ">mm10<")), /mm10/);
+  });
+
+  it("the parser takes hOCR as it takes Vision JSON", () => {
+    const [t] = buildColumnTranscripts(HOCR, 7);
+    assert.deepStrictEqual(t!.lines.map((l) => l.script), ["latin", "farsi"]);
+  });
+});
@@ -0,0 +1,593 @@
+// tests/parser.test.ts — deterministic parser stages on synthetic pages: geometry
+// (deskew / spine bow), layout (0..N columns), page furniture, bidi script runs,
+// Vision symbol detail, gutter conflicts, line clustering, runover stitching. No
+// data dependency, no LLM.
+// Run: npm run build && npx tsx --test tests/parser.test.ts
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+
+import {
+  columnLabel,
+  detectLayout,
+  splitByLayout,
+  estimatePageGeometry,
+  groupIntoLines,
+  markPageFurniture,
+  MIN_LINE_QUALITY,
+  assignColumn,
+  minConfidence,
+  resolveColumns,
+  parseBatch,
+  parsePage,
+  readVisionWords,
+  RuleBasedCorrector,
+  rectifyWords,
+  segmentLine,
+  withoutNoise,
+  type ColumnTranscript,
+  splitColumns,
+  stitchRunovers,
+  reviewEntry,
+  type Entry,
+  type Word,
+} from "../dist/index.js";
+
+// ---------- synthetic page ----------
+
+/** Columns of 30 lines x 6 words, 30px tall on a 40px pitch (small print, where
+ *  drift bites first), word widths varied so no accidental river runs down a
+ *  column; then every word centre moved by `warp`. */
+function page(warp: (x: number, y: number) => [number, number], columns = [150, 1250]): Word[] {
+  const words: Word[] = [];
+  for (const colX of columns) {
+    for (let line = 0; line < 30; line++) {
+      let left = colX;
+      for (let k = 0; k < 6; k++) {
+        const width = 70 + ((line * 7 + k * 13) % 6) * 15;
+        const [x, y] = warp(left + width / 2, 200 + line * 40 + 15);
+        words.push({ text: `w${line}.${k}`, bbox: [x - width / 2, y - 15, width, 30], languageCode: "en", confidence: 0.9 });
+        left += width + 25;
+      }
+    }
+  }
+  return words;
+}
+
+const CENTER: [number, number] = [1150, 800];
+const rotated = (deg: number) => (x: number, y: number): [number, number] => {
+  const t = (deg * Math.PI) / 180;
+  const [dx, dy] = [x - CENTER[0], y - CENTER[1]];
+  return [CENTER[0] + dx * Math.cos(t) - dy * Math.sin(t), CENTER[1] + dx * Math.sin(t) + dy * Math.cos(t)];
+};
+
+/** True when both columns cluster into exactly the 30 printed lines, each holding
+ *  its own 6 words and nothing else. */
+function linesIntact(words: Word[]): boolean {
+  const { left, right } = splitColumns(words);
+  return [left, right].every((col) => {
+    const lines = groupIntoLines(col);
+    return (
+      lines.length === 30 &&
+      lines.every((l) => l.words.length === 6 && new Set(l.words.map((w) => w.text.split(".")[0])).size === 1)
+    );
+  });
+}
+
+// ---------- tests ----------
+
+describe("page geometry (parser/geometry.ts)", () => {
+  it("a square page is left alone", () => {
+    const words = page((x, y) => [x, y]);
+    const g = estimatePageGeometry(words);
+    assert.ok(Math.abs(g.angle_deg) < 0.01);
+    assert.strictEqual(g.curve, null);
+    assert.strictEqual(rectifyWords(words), words);
+  });
+
+  it("estimates a 2.5 degree skew and restores the line structure", () => {
+    const words = page(rotated(2.5));
+    assert.ok(!linesIntact(words), "skew should break raw clustering");
+
+    const g = estimatePageGeometry(words);
+    assert.ok(Math.abs(g.angle_deg - 2.5) < 0.05, `angle ${g.angle_deg}`);
+    const fixed = rectifyWords(words, g);
+    assert.ok(linesIntact(fixed));
+    // clustering moved to `rect`; the source boxes are untouched
+    assert.deepStrictEqual(fixed.map((w) => w.bbox), words.map((w) => w.bbox));
+  });
+
+  it("fits a spine bow and keeps each line's words together", () => {
+    // lines sag up to 60px toward the right-hand spine
+    const words = page((x, y) => [x, y + 60 * (x / 2200) ** 2]);
+    assert.ok(!linesIntact(words), "bow should break raw clustering");
+    const g = estimatePageGeometry(words);
+    assert.ok(g.curve, "curve detected");
+    assert.ok(linesIntact(rectifyWords(words, g)));
+  });
+
+  it("line bbox is the union of original word boxes; yTop is the rectified top", () => {
+    const words = page(rotated(1.5));
+    const lines = groupIntoLines(splitColumns(rectifyWords(words)).left);
+    const first = lines[0]!;
+    const xs = first.words.map((w) => w.bbox[0]);
+    assert.strictEqual(first.bbox[0], Math.min(...xs));
+    assert.ok(lines.every((l, i) => i === 0 || l.yTop > lines[i - 1]!.yTop));
+  });
+});
+
+describe("page layout (parser/layout.ts)", () => {
+  const square = (x: number, y: number): [number, number] => [x, y];
+
+  it("two columns: one gutter, split between them, labelled left/right", () => {
+    const words = page(square);
+    const layout = detectLayout(words);
+    assert.strictEqual(layout.columns, 2);
+    const x = layout.gutters[0]!.x;
+    assert.ok(x > 1020 && x < 1250, `split ${x}`);
+    assert.ok(layout.confidence > 0.9);
+    assert.deepStrictEqual(splitByLayout(words, layout).map((c) => c.length), [180, 180]);
+    assert.deepStrictEqual([0, 1].map((i) => columnLabel(i, 2)), ["left", "right"]);
+  });
+
+  it("one column: no gutter, labelled full", () => {
+    const layout = detectLayout(page(square, [150]));
+    assert.deepStrictEqual([layout.columns, layout.gutters.length], [1, 0]);
+    assert.ok(layout.confidence > 0.9);
+    assert.strictEqual(columnLabel(0, 1), "full");
+  });
+
+  it("three columns (appendix-style)", () => {
+    const words = page(square, [100, 1200, 2300]);
+    const layout = detectLayout(words);
+    assert.strictEqual(layout.columns, 3);
+    assert.deepStrictEqual(splitByLayout(words, layout).map((c) => c.length), [180, 180, 180]);
+    assert.deepStrictEqual([0, 1, 2].map((i) => columnLabel(i, 3)), ["col1", "col2", "col3"]);
+  });
+
+  it("English-left / Farsi-right rows of ONE column are not two columns", () => {
+    // alternating rows: short English at the margin, short Farsi at the right edge,
+    // leaving a clear vertical strip between them
+    const words: Word[] = [];
+    for (let row = 0; row < 30; row++) {
+      const y = 200 + row * 40;
+      const x = row % 2 === 0 ? 150 : 700;
+      for (let k = 0; k < 2; k++) {
+        words.push({ text: `w${row}.${k}`, bbox: [x + k * 130, y, 120, 30], languageCode: null, confidence: 0.9 });
+      }
+    }
+    const layout = detectLayout(words);
+    assert.strictEqual(layout.columns, 1);
+    assert.ok(layout.confidence < 0.5, "the rejected strip lowers confidence");
+  });
+});
+
+describe("page furniture (parser/noise.ts)", () => {
+  const word = (text: string, x: number, y: number): Word => ({
+    text,
+    bbox: [x, y, 20 * text.length, 30],
+    languageCode: null,
+    confidence: 0.9,
+  });
+  /** Body text on rows 200..1000 (row 600 left free), plus the given extra words. */
+  function column(column: "left" | "right", extra: Word[]): ColumnTranscript {
+    const words = [...extra];
+    for (let y = 200; y <= 1000; y += 40) if (y !== 600) words.push(word("Abet", 150, y), word("n.", 260, y));
+    return { page_number: 7, column, column_index: column === "left" ? 0 : 1, lines: groupIntoLines(words) };
+  }
+
+  it("marks header, section letter and footer; reads the printed page number", () => {
+    const left = column("left", [word("A,7", 150, 100)]);
+    const right = column("right", [word("A", 1250, 100), word("۷", 1250, 1100)]);
+    const meta = markPageFurniture([left, right], 7);
+    assert.deepStrictEqual(
+      meta.furniture.map((f) => [f.column, f.kind, f.text]),
+      [
+        ["left", "header", "A,7"],
+        ["right", "section_letter", "A"],
+        ["right", "page_number", "۷"],
+      ],
+    );
+    assert.deepStrictEqual(
+      [meta.printed_page_number, meta.section_letter, meta.page_number_check],
+      [7, "A", "match"],
+    );
+    assert.ok(withoutNoise(left).lines.every((l) => l.text !== "A,7"));
+    assert.strictEqual(withoutNoise(right).lines.length, 20);
+  });
+
+  it('"6/A" at the foot is a footer; a filing mismatch is reported', () => {
+    const meta = markPageFurniture([column("left", [word("6/A", 150, 1100)])], 7);
+    assert.strictEqual(meta.furniture[0]?.kind, "footer");
+    assert.deepStrictEqual([meta.printed_page_number, meta.page_number_check], [6, "mismatch"]);
+  });
+
+  it("a bare number inside the body is content; no page number is absent", () => {
+    const t = column("left", [word("12", 150, 600)]);
+    const meta = markPageFurniture([t], 7);
+    assert.deepStrictEqual(meta.furniture, []);
+    assert.strictEqual(meta.page_number_check, "absent");
+    assert.ok(withoutNoise(t).lines.some((l) => l.text === "12"));
+  });
+});
+
+describe("script runs of mixed lines (parser/bidi.ts)", () => {
+  /** Words laid out left to right as printed, 60px apart. */
+  const visual = (...texts: string[]): Word[] =>
+    texts.map((text, i) => ({ text, bbox: [100 + 60 * i, 300, 50, 30], languageCode: null, confidence: 0.9 }));
+  const runs = (words: Word[]) => segmentLine(words).map((s) => [s.script, s.text]);
+
+  it("a pure line is one run; Farsi reads right to left", () => {
+    assert.deepStrictEqual(runs(visual("Abide", "by")), [["latin", "Abide by"]]);
+    assert.deepStrictEqual(runs(visual("کردن", "تحریک")), [["farsi", "تحریک کردن"]]);
+    assert.deepStrictEqual(runs(visual(",", "7")), [["neutral", ", 7"]]);
+  });
+
+  it("an LTR line: runs left to right, the Farsi run reversed", () => {
+    assert.deepStrictEqual(runs(visual("Abet", "v.", "تحریک", "تشویق")), [
+      ["latin", "Abet v."],
+      ["farsi", "تشویق تحریک"],
+    ]);
+  });
+
+  it("an RTL line: runs right to left; a neutral between Farsi words stays Farsi", () => {
+    const words = visual("اولی", "-", "طریق", "The", "به");
+    const segments = segmentLine(words);
+    assert.deepStrictEqual(segments.map((s) => [s.script, s.direction, s.text]), [
+      ["farsi", "rtl", "به"],
+      ["latin", "ltr", "The"],
+      ["farsi", "rtl", "طریق - اولی"],
+    ]);
+    assert.deepStrictEqual(segments[2]!.word_indices, [2, 1, 0]);
+    assert.deepStrictEqual(segments[1]!.bbox, words[3]!.bbox);
+  });
+
+  it("groupIntoLines attaches segments; mixed line text keeps its visual order", () => {
+    const [line] = groupIntoLines(visual("Abet", "v.", "تحریک", "تشویق"));
+    assert.strictEqual(line!.script, "mixed");
+    assert.strictEqual(line!.text, "Abet v. تحریک تشویق");
+    assert.strictEqual(line!.segments.length, 2);
+  });
+});
+
+describe("Vision symbol detail (detectedBreak, symbol confidence)", () => {
+  interface Spec {
+    text: string;
+    at: [number, number];
+    brk?: string;
+    /** symbol index -> confidence (others 0.99) */
+    weak?: Record<number, number>;
+  }
+  /** Raw Vision page, one paragraph; words in the given (Vision) order, 18px per
+   *  symbol, 30px tall; the break sits on the last symbol. */
+  function vision(specs: Spec[]): unknown {
+    const box = (x: number, y: number, w: number) => ({
+      vertices: [{ x, y }, { x: x + w, y }, { x: x + w, y: y + 30 }, { x, y: y + 30 }],
+    });
+    const words = specs.map(({ text, at: [x, y], brk, weak = {} }) => {
+      const chars = [...text];
+      return {
+        boundingBox: box(x, y, 18 * chars.length),
+        confidence: 0.97,
+        symbols: chars.map((c, i) => ({
+          text: c,
+          confidence: weak[i] ?? 0.99,
+          boundingBox: box(x + 18 * i, y, 18),
+          property: i === chars.length - 1 && brk ? { detectedBreak: { type: brk } } : null,
+        })),
+      };
+    });
+    return { pages: [{ blocks: [{ paragraphs: [{ words }] }] }] };
+  }
+  const texts = (specs: Spec[]) => groupIntoLines(readVisionWords(vision(specs))).map((l) => l.text);
+
+  it("keeps symbols, their confidence and the break after the word", () => {
+    const [w] = readVisionWords(vision([{ text: "تحریک", at: [100, 100], brk: "SPACE", weak: { 2: 0.3 } }]));
+    assert.strictEqual(w!.symbols!.length, 5);
+    assert.deepStrictEqual(w!.symbols![1]!.bbox, [118, 100, 18, 30]);
+    assert.strictEqual(w!.break, "SPACE");
+    assert.strictEqual(w!.confidence, 0.97);
+    assert.strictEqual(minConfidence(w!), 0.3);
+  });
+
+  it("a line split on a y-gap is rejoined when Vision reads one line", () => {
+    const split = (brk: string): Spec[] => [
+      { text: "stealing", at: [100, 300], brk: "SPACE" },
+      { text: "cattle", at: [260, 300], brk: "SPACE" },
+      { text: ",", at: [380, 300], brk },
+      { text: ".Cattle", at: [420, 320], brk: "SPACE" },
+      { text: "stealer", at: [560, 320], brk: "LINE_BREAK" },
+    ];
+    assert.deepStrictEqual(texts(split("SPACE")), ["stealing cattle , .Cattle stealer"]);
+    assert.deepStrictEqual(texts(split("EOL_SURE_SPACE")), ["stealing cattle ,", ".Cattle stealer"]);
+  });
+
+  it("rejoins an English word hyphenated across lines", () => {
+    const lines = groupIntoLines(
+      readVisionWords(
+        vision([
+          { text: "The", at: [100, 300], brk: "SPACE" },
+          { text: "con-", at: [180, 300], brk: "HYPHEN" },
+          { text: "sideration", at: [100, 340], brk: "SPACE" },
+          { text: "paid", at: [300, 340], brk: "LINE_BREAK" },
+        ]),
+      ),
+    );
+    assert.deepStrictEqual(lines.map((l) => l.text), ["The consideration", "paid"]);
+    const joined = lines[0]!.words[1]!;
+    assert.deepStrictEqual(joined.bbox, [180, 300, 72, 30]);
+    assert.strictEqual(joined.symbols!.map((s) => s.text).join(""), "consideration");
+    assert.strictEqual(joined.break, "SPACE");
+  });
+
+  it("entry min_confidence is the weakest symbol, not a word average", async () => {
+    const page = (weak: Record<number, number>) =>
+      vision([
+        { text: "Abet", at: [100, 100], brk: "LINE_BREAK" },
+        { text: "تحریک", at: [300, 150], brk: "LINE_BREAK", weak },
+      ]);
+    const [bad] = await parsePage(page({ 3: 0.2 }), 7, new RuleBasedCorrector());
+    assert.strictEqual(bad!.min_confidence, 0.2);
+    assert.ok(bad!.confidence! > 0.9, "the word average hides it");
+    assert.deepStrictEqual(bad!.review_reasons, [{ code: "low_symbol_confidence", actual: 0.2, threshold: 0.6 }]);
+    const [good] = await parsePage(page({}), 7, new RuleBasedCorrector());
+    assert.strictEqual(good!.min_confidence, 0.99);
+    assert.strictEqual(good!.needs_review, false);
+  });
+
+  it("a run flags headwords out of order across pages and counts reasons", async () => {
+    const page = (headword: string, weak: Record<number, number> = {}) =>
+      vision([
+        { text: headword, at: [100, 100], brk: "LINE_BREAK" },
+        { text: "تحریک", at: [300, 150], brk: "LINE_BREAK", weak },
+      ]);
+    const run = await parseBatch(
+      [
+        { raw: page("Abide"), page_number: 7 },
+        { raw: page("Abet", { 3: 0.2 }), page_number: 8 },
+      ],
+      new RuleBasedCorrector(),
+    );
+    const [first, second] = run.pages.map((p) => p.entries[0]!);
+    assert.deepStrictEqual(first!.review_reasons, []);
+    assert.deepStrictEqual(second!.review_reasons.map((r) => r.code), ["low_symbol_confidence", "out_of_order"]);
+    assert.deepStrictEqual(second!.review_reasons[1], { code: "out_of_order", prev: "abide", curr: "abet" });
+    assert.deepStrictEqual(run.findings.map((f) => [f.reason.code, f.entry_ids]), [["out_of_order", [second!.entry_id]]]);
+    assert.deepStrictEqual(run.review_summary, { low_symbol_confidence: 1, out_of_order: 1 });
+  });
+
+  it("a run resolves cross-refs against its headwords and flags the rest", async () => {
+    const page = (headword: string, ref: string) =>
+      vision([
+        { text: headword, at: [100, 100], brk: "LINE_BREAK" },
+        { text: "تحریک", at: [120, 150], brk: "LINE_BREAK" },
+        { text: "<See", at: [100, 200], brk: "SPACE" },
+        { text: `${ref}>`, at: [180, 200], brk: "LINE_BREAK" },
+      ]);
+    const run = await parseBatch(
+      [
+        { raw: page("Abet", "Abettor"), page_number: 7 },
+        { raw: page("Abettor", "Accomplice"), page_number: 8 },
+      ],
+      new RuleBasedCorrector(),
+    );
+    const [abet, abettor] = run.pages.map((p) => p.entries[0]!);
+    assert.deepStrictEqual(abet!.cross_refs, [{ text: "See Abettor", target: "Abettor", entry_id: abettor!.entry_id }]);
+    assert.deepStrictEqual(abettor!.cross_refs, [{ text: "See Accomplice", target: "Accomplice", entry_id: null }]);
+    assert.deepStrictEqual(abettor!.review_reasons, [{ code: "unresolved_cross_ref", target: "Accomplice" }]);
+    assert.deepStrictEqual(run.review_summary, { unresolved_cross_ref: 1 });
+  });
+
+  it("a run stitches a runover across pages before the cross-record checks", async () => {
+    const run = await parseBatch(
+      [
+        {
+          raw: vision([
+            { text: "Abet", at: [100, 100], brk: "LINE_BREAK" },
+            { text: "تحریک", at: [120, 150], brk: "LINE_BREAK" },
+            { text: "to", at: [100, 200], brk: "SPACE" },
+            { text: "encourage", at: [150, 200], brk: "LINE_BREAK" },
+          ]),
+          page_number: 7,
+        },
+        {
+          raw: vision([
+            { text: "another", at: [100, 100], brk: "SPACE" },
+            { text: "person", at: [240, 100], brk: "LINE_BREAK" },
+            { text: "Abide", at: [100, 150], brk: "LINE_BREAK" },
+            { text: "ماندن", at: [120, 200], brk: "LINE_BREAK" },
+          ]),
+          page_number: 8,
+        },
+      ],
+      new RuleBasedCorrector(),
+    );
+    const [abet] = run.pages[0]!.entries;
+    assert.deepStrictEqual(run.pages.map((p) => p.entries.map((e) => e.headword_en)), [["Abet"], ["Abide"]]);
+    assert.strictEqual(abet!.definition_en, "to encourage another person");
+    assert.deepStrictEqual(abet!.runover_images.map((r) => r.page_number), [8]);
+    assert.strictEqual(run.runover_links.length, 1);
+    assert.strictEqual(run.runover_links[0]!.entry_id, abet!.entry_id);
+    assert.deepStrictEqual(run.unresolved_runovers, []);
+    // no headless continuation left for the ordering / review checks to trip on
+    assert.deepStrictEqual(run.findings, []);
+    assert.deepStrictEqual(run.review_summary, {});
+  });
+});
+
+describe("gutter conflicts (parser/columns.ts assignToColumns)", () => {
+  const base = page((x, y) => [x, y]);
+  const strip = detectLayout(base).gutters[0]!;
+  /** A word of 18px symbols at x, with a blank of `gap` px after `cut` symbols. */
+  function glued(text: string, x: number, cut: number, gap: number): Word {
+    const symbols = [...text].map((c, i) => ({
+      text: c,
+      confidence: 0.9,
+      bbox: [x + 18 * i + (i >= cut ? gap : 0), 200, 18, 30] as [number, number, number, number],
+      break: null,
+    }));
+    const last = symbols.at(-1)!.bbox;
+    return { text, bbox: [x, 200, last[0] + 18 - x, 30], languageCode: null, confidence: 0.9, symbols, break: "SPACE" };
+  }
+
+  it("a word Vision glued across the gutter is cut in two", () => {
+    const word = glued("endStart", strip.from - 3 * 18 - 5, 3, strip.to - strip.from + 10);
+    const words = [...base, word];
+    const { columns, conflicts } = resolveColumns(words, detectLayout(words));
+    assert.deepStrictEqual(conflicts.map((c) => [c.kind, c.text, c.columns]), [["split", "endStart", [0, 1]]]);
+    assert.deepStrictEqual(columns.map((c) => c.length), [181, 181]);
+    assert.ok(columns[0]!.some((w) => w.text === "end" && w.bbox[0] === word.bbox[0]));
+    assert.ok(columns[1]!.some((w) => w.text === "Start" && w.symbols?.length === 5));
+  });
+
+  it("a straddler without a blank is kept whole where it overlaps most", () => {
+    // 30px into the left column, the rest across the strip and into the right one
+    const n = Math.ceil((strip.to - strip.from + 100) / 18);
+    const wide = glued("s".repeat(n), strip.from - 30, n, 0);
+    const words = [...base, wide];
+    const { columns, conflicts } = resolveColumns(words, detectLayout(words));
+    assert.deepStrictEqual(conflicts.map((c) => [c.kind, c.columns]), [["straddle", [1]]]);
+    assert.ok(columns[1]!.includes(wide));
+  });
+
+  it("a word inside the strip goes to the nearer column", () => {
+    const stray = glued("x", strip.from + 2, 1, 0);
+    const { conflicts } = resolveColumns([...base, stray], detectLayout([...base, stray]));
+    assert.deepStrictEqual(conflicts.map((c) => [c.kind, c.columns]), [["in_gutter", [0]]]);
+  });
+
+  it("two-column split by overlap, not by left edge", () => {
+    const w = glued("word", 1080, 4, 0); // 1080..1152
+    assert.strictEqual(assignColumn(w, 1100), "right");
+    const { left, right, conflicts } = splitColumns([w], 1100);
+    assert.deepStrictEqual([left.length, right.length, conflicts[0]?.kind], [0, 1, "straddle"]);
+  });
+});
+
+describe("line clustering on baselines (parser/lines.ts)", () => {
+  const w = (text: string, x: number, top: number, h = 30, width = 60): Word => ({
+    text,
+    bbox: [x, top, width, h],
+    languageCode: null,
+    confidence: 0.9,
+  });
+  const texts = (words: Word[]) => groupIntoLines(words).map((l) => l.text);
+
+  it("Farsi ascenders and final descenders stay on their line", () => {
+    // line 1 baseline 130: flat words, one 25px taller above, one descending 25px below
+    const words = [
+      w("کتاب", 700, 100),
+      w("کتب", 620, 100),
+      w("الف", 540, 75, 55),
+      w("دین", 460, 100, 55),
+      w("باب", 380, 100),
+      w("کتاب", 700, 145),
+      w("کتب", 620, 145),
+      w("باب", 540, 145),
+    ];
+    assert.deepStrictEqual(texts(words), ["کتاب کتب الف دین باب", "کتاب کتب باب"]);
+  });
+
+  it("a stray dot or haraka joins its host word's line", () => {
+    const words = [w("Abet", 100, 100), w("تحریک", 300, 100), w("ً", 330, 88, 6, 6), w(".", 170, 123, 5, 5), w("Abide", 100, 140)];
+    const lines = groupIntoLines(words);
+    assert.strictEqual(lines.length, 2);
+    assert.deepStrictEqual(lines[0]!.words.map((x) => x.text).sort(), [".", "Abet", "ً", "تحریک"].sort());
+  });
+
+  it("tight English lines whose boxes overlap are separated by baseline", () => {
+    // 26px pitch, 30px boxes; descenders of line 1 and capitals of line 2 interleave
+    const words = [
+      w("The", 100, 100),
+      w("gap", 170, 104, 36),
+      w("of", 240, 108, 22),
+      w("Top", 100, 126),
+      w("joy", 170, 130, 36),
+      w("an", 240, 134, 22),
+    ];
+    assert.deepStrictEqual(texts(words), ["The gap of", "Top joy an"]);
+  });
+
+  it("scores each line; overlapping words in one line are suspect", () => {
+    const [clean] = groupIntoLines([w("Abet", 100, 100), w("n.", 170, 100)]);
+    assert.strictEqual(clean!.quality, 1);
+    const [doubled] = groupIntoLines([w("Abet", 100, 100), w("Abel", 110, 101)]);
+    assert.ok(doubled!.quality < MIN_LINE_QUALITY, `quality ${doubled!.quality}`);
+  });
+});
+
+describe("runover stitching (parser/stitch.ts)", () => {
+  function entry(page: number, column: number, line: number, fields: Partial<Entry> = {}): Entry {
+    const e: Entry = {
+      entry_id: `${page}-${column === 0 ? "left" : "right"}-${line}`,
+      headword_en: "Abet",
+      headword_normalized: "abet",
+      sort_key: "abet",
+      pronunciation: null,
+      pos: null,
+      translation_fa: "تحریک کردن",
+      translation_fa_normalized: "تحریک کردن",
+      definition_en: "To encourage a crime",
+      cross_refs: [],
+      raw_ocr_snippet: "Abet تحریک کردن To encourage a crime",
+      source_image: { page_number: page, column: column === 0 ? "left" : "right", column_index: column, bbox: [100, 100 * line, 800, 90] },
+      is_continuation: false,
+      runover_images: [],
+      needs_review: false,
+      review_reasons: [],
+      confidence: 0.95,
+      min_confidence: 0.9,
+      provenance: { prompt_version: "rules-v1", profile: "rules", model: "rules", run_id: "r", corrected_at: "2026-01-01T00:00:00Z" },
+      disagreement: null,
+      vision_reread: null,
+      ...fields,
+    };
+    const review_reasons = reviewEntry(e);
+    return { ...e, review_reasons, needs_review: review_reasons.length > 0 };
+  }
+  const runover = (page: number, column: number, fields: Partial<Entry> = {}) =>
+    entry(page, column, 0, {
+      headword_en: "",
+      headword_normalized: "",
+      sort_key: "",
+      translation_fa: "",
+      definition_en: "or help another to commit it",
+      raw_ocr_snippet: "or help another to commit it",
+      is_continuation: true,
+      ...fields,
+    });
+
+  it("a continuation opening a page joins the previous page's last entry", () => {
+    const cont = runover(8, 0);
+    assert.deepStrictEqual(cont.review_reasons.map((r) => r.code), ["farsi_script", "english_script", "suspicious_fa"], "alone it can't pass");
+    const result = stitchRunovers([
+      { page_number: 7, entries: [entry(7, 0, 1, { headword_en: "Abandon", headword_normalized: "abandon", sort_key: "abandon" }), entry(7, 1, 5)] },
+      { page_number: 8, entries: [cont, entry(8, 0, 3, { headword_en: "Abide", headword_normalized: "abide", sort_key: "abide" })] },
+    ]);
+    assert.deepStrictEqual(result.links, [{ continuation_id: "8-left-0", entry_id: "7-right-5" }]);
+    assert.deepStrictEqual(result.entries.map((e) => e.entry_id), ["7-left-1", "7-right-5", "8-left-3"]);
+    const merged = result.entries[1]!;
+    assert.strictEqual(merged.definition_en, "To encourage a crime or help another to commit it");
+    assert.deepStrictEqual(merged.runover_images, [cont.source_image]);
+    assert.strictEqual(merged.needs_review, false, "re-validated as a whole");
+  });
+
+  it("a right column's continuation joins the left column's last entry", () => {
+    const result = stitchRunovers([{ page_number: 7, entries: [entry(7, 0, 4), runover(7, 1, { translation_fa: "شریک جرم" })] }]);
+    assert.strictEqual(result.entries.length, 1);
+    assert.strictEqual(result.entries[0]!.translation_fa, "تحریک کردن شریک جرم");
+    assert.strictEqual(result.entries[0]!.translation_fa_normalized, "تحریک کردن شریک جرم");
+  });
+
+  it("parser-only reasons survive the merge; record-level ones are recomputed", () => {
+    const cont = runover(8, 0);
+    cont.review_reasons.push({ code: "reply_gate", message: "gap: line 2 lies between cited lines 1 and 3" });
+    const joined = stitchRunovers([{ page_number: 7, entries: [entry(7, 1, 5)] }, { page_number: 8, entries: [cont] }]);
+    assert.deepStrictEqual(joined.entries[0]!.review_reasons.map((r) => r.code), ["reply_gate"]);
+    assert.strictEqual(joined.entries[0]!.needs_review, true);
+  });
+
+  it("a gap in the page sequence leaves the continuation alone", () => {
+    const gap = stitchRunovers([{ page_number: 7, entries: [entry(7, 1, 5)] }, { page_number: 9, entries: [runover(9, 0)] }]);
+    assert.deepStrictEqual([gap.links, gap.unresolved], [[], ["9-left-0"]]);
+  });
+});
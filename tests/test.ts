@@ -1,15 +1,25 @@
-// tests/test.ts — Deterministic parser invariant checks (I1–I4, pages 05/06/07).
+// tests/test.ts — Deterministic parser invariant checks (I1–I4, pages 05/06/07) on
+// the column split buildPage() uses (rectifyWords -> detectLayout -> resolveColumns),
+// plus I5: the full parsePage pipeline replayed from the corrector cassettes in
+// tests/cassettes. Every page pinned there (NN.vision.json + NN-<column>.json +
+// NN.entries.json, written by scripts/record.mjs) is replayed; 90 is a synthetic
+// two-column page recorded offline with LLM_PROFILE=rules.
 // Run: npm test  (tsx --test tests/test.ts)
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { readFileSync } from "node:fs";
+import { readdirSync, readFileSync } from "node:fs";
 
 // Compiled dist (ESM/NodeNext), import with .js extension.
 import {
   readVisionWords,
+  readOcrWords,
+  rectifyWords,
+  detectLayout,
+  resolveColumns,
+  layoutBox,
   buildColumnTranscripts,
-  splitColumns,
-  detectColumnSplitX,
+  parsePage,
+  ReplayCorrector,
   type Word,
 } from "../dist/index.js";
 
@@ -43,39 +53,47 @@ const pages = {
   "07": "v1-old/data/output/07.json",
 } as const;
 
+const CASSETTES = "tests/cassettes";
 const BAND_HALF = 10;
 const MAX_COLUMN_IMBALANCE = 0.70;
 
 for (const [id, path] of Object.entries(pages)) {
   const { raw, words } = loadPage(path);
-  const detectedX = detectColumnSplitX(words);
+  // the column split buildPage() ships: rectified words, detected layout, resolved columns
+  const rectified = rectifyWords(readOcrWords(raw));
+  const layout = detectLayout(rectified);
+  const { columns, conflicts } = resolveColumns(rectified, layout);
 
   describe(`page ${id}`, () => {
     // --- I1: Word-count tie-out ---
-    it("I1 word-count tie-out: readVisionWords == flattened blocks == left+right", () => {
+    it("I1 word-count tie-out: readVisionWords == flattened blocks == sum of columns - splits", () => {
       const direct = words.length;
       const flattened = flattenCount(raw);
-      const { left, right } = splitColumns(words);
-      const sum = left.length + right.length;
+      const splits = conflicts.filter((c) => c.kind === "split").length;
+      const sum = columns.reduce((n, col) => n + col.length, 0);
 
       assert.strictEqual(direct, flattened,
         `readVisionWords=${direct} != flattened=${flattened}`);
-      assert.strictEqual(direct, sum,
-        `readVisionWords=${direct} != left(${left.length})+right(${right.length})=${sum}`);
+      // every glued word is cut in exactly two, every other word placed once
+      assert.strictEqual(direct + splits, sum,
+        `readVisionWords=${direct} + splits(${splits}) != columns(${columns.map((c) => c.length).join("+")})=${sum}`);
+      for (const c of conflicts) {
+        assert.strictEqual(c.columns.length, c.kind === "split" ? 2 : 1, `${c.kind} "${c.text}"`);
+      }
     });
 
-    // --- I2: Column integrity (detected split, not hardcoded 1100) ---
-    it("I2 column integrity: both cols non-empty, detected split sits in empty band", () => {
-      const { left, right } = splitColumns(words);
-      assert.ok(left.length > 0, "left column empty");
-      assert.ok(right.length > 0, "right column empty");
+    // --- I2: Column integrity (detectLayout's gutter, not hardcoded 1100) ---
+    it("I2 column integrity: two non-empty columns, the detected split sits in an empty band", () => {
+      assert.strictEqual(layout.columns, 2, `detected ${layout.columns} columns`);
+      for (const [i, col] of columns.entries()) assert.ok(col.length > 0, `column ${i} empty`);
 
-      const inBand = words.filter((w) =>
-        w.bbox[0] >= detectedX - BAND_HALF &&
-        w.bbox[0] <= detectedX + BAND_HALF,
+      const x = layout.gutters[0]!.x;
+      const inBand = rectified.filter((w) =>
+        layoutBox(w)[0] >= x - BAND_HALF &&
+        layoutBox(w)[0] <= x + BAND_HALF,
       );
       assert.strictEqual(inBand.length, 0,
-        `detected split ${detectedX} has ${inBand.length} words in band [${detectedX - BAND_HALF},${detectedX + BAND_HALF}]`);
+        `detected split ${x} has ${inBand.length} words in band [${x - BAND_HALF},${x + BAND_HALF}]`);
     });
 
     // --- I3: Reading order ---
@@ -93,15 +111,29 @@ for (const [id, path] of Object.entries(pages)) {
     });
 
     // --- I4: Column balance (regression guard for mis-assignment) ---
-    it("I4 column balance: neither column >70% of total words", () => {
-      const { left, right } = splitColumns(words);
-      const total = words.length;
-      const leftPct = left.length / total;
-      const rightPct = right.length / total;
-      assert.ok(leftPct <= MAX_COLUMN_IMBALANCE,
-        `left column ${left.length}/${total} = ${(leftPct * 100).toFixed(1)}% > 70%`);
-      assert.ok(rightPct <= MAX_COLUMN_IMBALANCE,
-        `right column ${right.length}/${total} = ${(rightPct * 100).toFixed(1)}% > 70%`);
+    it("I4 column balance: no column >70% of total words", () => {
+      const total = columns.reduce((n, col) => n + col.length, 0);
+      for (const [i, col] of columns.entries()) {
+        const pct = col.length / total;
+        assert.ok(pct <= MAX_COLUMN_IMBALANCE,
+          `column ${i} ${col.length}/${total} = ${(pct * 100).toFixed(1)}% > 70%`);
+      }
     });
   });
 }
+
+// --- I5: Full-page pipeline, replayed from cassettes (no network) ---
+describe("pipeline replay", () => {
+  const pinned = readdirSync(CASSETTES).filter((f) => /^\d+\.entries\.json$/.test(f)).sort();
+  it("at least one page is pinned", () => assert.ok(pinned.length > 0, `no NN.entries.json in ${CASSETTES}`));
+  for (const file of pinned) {
+    const id = file.slice(0, -".entries.json".length);
+    it(`I5 page ${id}: parsePage over recorded cassettes == pinned entries`, async () => {
+      const raw = JSON.parse(readFileSync(`${CASSETTES}/${id}.vision.json`, "utf8")) as unknown;
+      const entries = await parsePage(raw, Number(id), new ReplayCorrector(CASSETTES));
+      const expected = JSON.parse(readFileSync(`${CASSETTES}/${file}`, "utf8")) as unknown;
+      // provenance carries this run's id + timestamp; everything else is pinned
+      assert.deepStrictEqual(entries.map(({ provenance: _p, ...e }) => e), expected);
+    });
+  }
+});
@@ -1,13 +1,89 @@
 // tests/validation.test.ts — Tier-2 pure-function unit tests (worker handoff).
-// normalizeFa (validation/normalize.ts) + looksSuspiciousFa (validation/refinements.ts).
+// normalizeFa / normalizeFaSearch (validation/normalize.ts) + looksSuspiciousFa (validation/refinements.ts)
+// + the POS key (validation/pos.ts) + headword collation (collation.ts) + the batch
+// validator suite (validation/cross-record.ts) + cross-references (validation/cross-refs.ts).
 // SPEC-INTENT tests, synthetic inputs only. No production code changes. No data dependency.
 // Run: npm run build && npx tsx --test tests/validation.test.ts
 import { describe, it } from "node:test";
 import assert from "node:assert/strict";
-import { normalizeFa, validation } from "../dist/index.js";
+import {
+  attachFindings,
+  checkAlphabeticalContinuity,
+  compareHeadwords,
+  countReviewReasons,
+  extractCrossRefs,
+  normalizeFa,
+  normalizeFaSearch,
+  normalizePos,
+  POS_TAGS,
+  POS_VALUES,
+  prefixPattern,
+  renderCrossRefs,
+  resolveCrossRefs,
+  sortKey,
+  validateBatch,
+  validation,
+  type BatchPage,
+  type ColumnTranscript,
+  type Entry,
+  type Line,
+  type PageMeta,
+} from "../dist/index.js";
 
 const { looksSuspiciousFa } = validation;
 
+// ---------- fixtures ----------
+
+/** A complete Entry for id "<page>-<column>-<line>"; `fields` override. */
+function entry(id: string, headword: string, fields: Partial<Entry> = {}): Entry {
+  const [page = "0", column = "left"] = id.split("-");
+  return {
+    entry_id: id,
+    headword_en: headword,
+    headword_normalized: headword.toLowerCase(),
+    sort_key: sortKey(headword),
+    pronunciation: null,
+    pos: null,
+    translation_fa: headword === "" ? "" : "تحریک کردن",
+    translation_fa_normalized: headword === "" ? "" : "تحریک کردن",
+    definition_en: null,
+    cross_refs: [],
+    raw_ocr_snippet: headword,
+    source_image: {
+      page_number: Number(page),
+      column: column === "right" ? "right" : "left",
+      column_index: column === "right" ? 1 : 0,
+      bbox: [100, 100, 800, 90],
+    },
+    is_continuation: headword === "",
+    runover_images: [],
+    needs_review: false,
+    review_reasons: [],
+    confidence: 0.95,
+    min_confidence: 0.9,
+    provenance: { prompt_version: "rules-v2", profile: "rules", model: "rules", run_id: "r", corrected_at: "2026-01-01T00:00:00Z" },
+    disagreement: null,
+    vision_reread: null,
+    ...fields,
+  };
+}
+
+/** A complete transcript Line, one per 40px. */
+function line(text: string, i: number): Line {
+  return {
+    text,
+    script: /[\u0600-\u06FF]/.test(text) ? "farsi" : "latin",
+    yTop: i * 40,
+    bbox: [100, i * 40, 800, 30],
+    avgConfidence: 0.95,
+    minConfidence: 0.9,
+    words: [],
+    segments: [],
+    noise: null,
+    quality: 1,
+  };
+}
+
 describe("normalizeFa (validation/normalize.ts)", () => {
   it("Arabic yeh -> Persian yeh: \\u064A -> \\u06CC", () => {
     assert.strictEqual(normalizeFa("\u064A"), "\u06CC");
@@ -46,6 +122,59 @@ describe("normalizeFa (validation/normalize.ts)", () => {
   });
 });
 
+describe("normalizeFa storage form: canonical, meaning kept", () => {
+  it("tatweel and bidi marks removed: \\u062A\\u0640\\u0640\\u0631\\u200F -> \\u062A\\u0631", () => {
+    assert.strictEqual(normalizeFa("\u062A\u0640\u0640\u0631\u200F"), "\u062A\u0631");
+  });
+
+  it("presentation forms -> letters: \\uFEE1\\uFEAE\\uFEA9 -> \\u0645\\u0631\\u062F, \\uFEFB -> \\u0644\\u0627", () => {
+    assert.strictEqual(normalizeFa("\uFEE1\uFEAE\uFEA9"), "\u0645\u0631\u062F");
+    assert.strictEqual(normalizeFa("\uFEFB"), "\u0644\u0627");
+  });
+
+  it("ZWNJ between letters kept, doubled collapsed, stray dropped", () => {
+    const miShavad = "\u0645\u06CC\u200C\u0634\u0648\u062F";
+    assert.strictEqual(normalizeFa(miShavad), miShavad);
+    assert.strictEqual(normalizeFa("\u0645\u06CC\u200C\u200C\u0634\u0648\u062F"), miShavad);
+    assert.strictEqual(normalizeFa("\u0645\u06CC\u200C \u0634\u0648\u062F\u200C"), "\u0645\u06CC \u0634\u0648\u062F");
+  });
+
+  it("\\u06C0 -> \\u0647\\u0654; harakat kept", () => {
+    assert.strictEqual(normalizeFa("\u062E\u0627\u0646\u06C0"), "\u062E\u0627\u0646\u0647\u0654");
+    assert.strictEqual(normalizeFa("\u062D\u064E\u0642"), "\u062D\u064E\u0642");
+  });
+
+  it("alef maksura -> Persian yeh: \\u0649 -> \\u06CC", () => {
+    assert.strictEqual(normalizeFa("\u0645\u0635\u0637\u0641\u0649"), "\u0645\u0635\u0637\u0641\u06CC");
+  });
+});
+
+describe("normalizeFaSearch: spellings of one word fold together", () => {
+  const fold = (...forms: string[]) => new Set(forms.map(normalizeFaSearch));
+
+  it("ZWNJ, space and nothing after the verb prefix \\u0645\\u06CC read alike", () => {
+    const forms = fold("\u0645\u06CC\u200C\u0634\u0648\u062F", "\u0645\u06CC \u0634\u0648\u062F", "\u0645\u06CC\u0634\u0648\u062F");
+    assert.deepStrictEqual([...forms], ["\u0645\u06CC\u0634\u0648\u062F"]);
+  });
+
+  it("plural \\u0647\\u0627 joined; other words keep their space", () => {
+    assert.strictEqual(normalizeFaSearch("\u062D\u0642 \u0647\u0627\u06CC  \u0645\u062F\u0646\u06CC"), "\u062D\u0642\u0647\u0627\u06CC \u0645\u062F\u0646\u06CC");
+  });
+
+  it("harakat, hamza carriers and \\u0629 folded", () => {
+    assert.strictEqual(normalizeFaSearch("\u062D\u064E\u0642\u0651"), "\u062D\u0642");
+    assert.deepStrictEqual([...fold("\u0645\u0633\u0626\u0644\u0647", "\u0645\u0633\u0626\u0644\u0629")], ["\u0645\u0633\u06CC\u0644\u0647"]);
+    assert.deepStrictEqual([...fold("\u062E\u0627\u0646\u06C0", "\u062E\u0627\u0646\u0647\u0654", "\u062E\u0627\u0646\u0647")], ["\u062E\u0627\u0646\u0647"]);
+    assert.strictEqual(normalizeFaSearch("\u0622\u0632\u0627\u062F"), "\u0627\u0632\u0627\u062F");
+  });
+
+  it("idempotent, and a fixed point of the storage form", () => {
+    const s = "\uFEE1\u064A\u200C\u0634\u0648\u0640\u062F";
+    assert.strictEqual(normalizeFaSearch(normalizeFaSearch(s)), normalizeFaSearch(s));
+    assert.strictEqual(normalizeFaSearch(normalizeFa(s)), normalizeFaSearch(s));
+  });
+});
+
 describe("looksSuspiciousFa (validation/refinements.ts)", () => {
   it("real multi-char Farsi, no Latin -> not suspicious", () => {
     assert.strictEqual(looksSuspiciousFa("اعمال زور"), false);
@@ -82,3 +211,213 @@ describe("looksSuspiciousFa (validation/refinements.ts)", () => {
     assert.strictEqual(looksSuspiciousFa("ا ب"), true);
   });
 });
+
+describe("POS key (validation/pos.ts)", () => {
+  it("codes come from the data file, each with an English label", () => {
+    assert.deepStrictEqual([...POS_VALUES], POS_TAGS.map((t) => t.code));
+    assert.ok(POS_TAGS.every((t) => t.label_en.length > 0));
+  });
+
+  it("printed variants of one tag read as one code", () => {
+    for (const raw of ["n.", "n", "N.", " N "]) {
+      assert.deepStrictEqual(normalizePos(raw), { codes: ["n"], unknown: [] });
+    }
+    assert.deepStrictEqual(normalizePos("v. t.").codes, ["vt"]);
+  });
+
+  it("compound tags split on the key's separators, in printed order", () => {
+    assert.deepStrictEqual(normalizePos("n. & adj.").codes, ["n", "adj"]);
+    assert.deepStrictEqual(normalizePos("v.t. and v.i.").codes, ["vt", "vi"]);
+    assert.deepStrictEqual(normalizePos("adj., n.").codes, ["adj", "n"]);
+  });
+
+  it("a Persian label is not a tag until the key gives one", () => {
+    assert.ok(POS_TAGS.every((t) => t.label_fa === null));
+    assert.deepStrictEqual(normalizePos("اسم"), { codes: [], unknown: ["اسم"] });
+  });
+
+  it("unknown parts are reported, not guessed", () => {
+    assert.deepStrictEqual(normalizePos("n. & xyz."), { codes: ["n"], unknown: ["xyz."] });
+  });
+});
+
+describe("headword collation (collation.ts)", () => {
+  // Printed headwords of pages 06-07 in reading order (docs/02, docs/03 section 3).
+  const PAGES_06_07 = [
+    "Abandonment", "Abandonment of action", "Abandonment of domicile", "Abandonment of wife",
+    "Abate", "Abatement", "Abatement, plea of", "Abater", "Abbroach", "Abdicate",
+    "Abduction", "Abet", "Abettor", "Abeyance", "Abigeatus", "Abide by", "Ability", "Able",
+    "Abnegation", "Abolition",
+  ];
+  // Headwords defined on page 05 (docs/01 B3, docs/04 F4). Their printed order is
+  // not transcribed, so they are listed in word-by-word order; what the book
+  // fixes is that all of them come before page 06.
+  const PAGE_05 = ["A fortiori", "A priori", "Ab initio", "Ab invito"];
+  const asEntries = (headwords: string[]) => headwords.map((h, i) => entry(`5-left-${i}`, h));
+
+  it("punctuation doesn't count; spaces and hyphens are one word break", () => {
+    assert.strictEqual(sortKey("Abatement, plea of"), "abatement plea of");
+    assert.strictEqual(sortKey("A fortiori"), "a fortiori");
+    for (const form of ["ab initio", "Ab-initio", "Ab  initio.", "AB INITIO"]) {
+      assert.strictEqual(sortKey(form), "ab initio");
+    }
+    assert.strictEqual(sortKey("Aiders' and abettors"), "aiders and abettors");
+  });
+
+  it("pages 06-07 file in order; the one exception is the book's own (Abigeatus / Abide by)", () => {
+    assert.deepStrictEqual(checkAlphabeticalContinuity(asEntries(PAGES_06_07)), [
+      { index: 15, prev: "abigeatus", curr: "abide by" },
+    ]);
+  });
+
+  it("page 05's Latin phrases file before page 06 word-by-word, not letter-by-letter", () => {
+    assert.deepStrictEqual(checkAlphabeticalContinuity(asEntries([...PAGE_05, ...PAGES_06_07])), [
+      { index: 19, prev: "abigeatus", curr: "abide by" },
+    ]);
+    const letter = { mode: "letter", ignore: "." } as const;
+    assert.ok(compareHeadwords("Ab initio", "Abandonment") < 0);
+    assert.ok(compareHeadwords("Ab initio", "Abandonment", letter) > 0);
+    assert.ok(compareHeadwords("A fortiori", "Ab initio") < 0);
+    assert.ok(compareHeadwords("A priori", "Ab initio") < 0);
+    assert.ok(compareHeadwords("A priori", "Ab initio", letter) > 0);
+  });
+
+  it("prefix search matches the key, wildcards escaped", () => {
+    assert.strictEqual(prefixPattern("Ab-in"), "ab in%");
+    assert.strictEqual(prefixPattern("Abatement, plea"), "abatement plea%");
+    assert.strictEqual(prefixPattern("100%_"), "100\\%\\_%");
+  });
+});
+
+describe("batch validator suite (validation/cross-record.ts validateBatch)", () => {
+  /** An entry at `bbox` in column `column_index` of its page. */
+  const placed = (id: string, headword: string, bbox: [number, number, number, number], column_index = 0): Entry =>
+    entry(id, headword, {
+      source_image: { page_number: Number(id.split("-")[0]), column: column_index === 0 ? "left" : "right", column_index, bbox },
+    });
+  const meta = (page_number: number, section_letter: string | null): PageMeta => ({
+    page_number,
+    printed_page_number: page_number,
+    section_letter,
+    page_number_check: "match",
+    furniture: [],
+  });
+  const page = (page_number: number, entries: Entry[], section: string | null = "A"): BatchPage => ({
+    page_number,
+    meta: meta(page_number, section),
+    entries,
+  });
+  const codes = (pages: BatchPage[]) => validateBatch(pages).map((f) => f.reason.code);
+
+  it("a clean run has no findings", () => {
+    const pages = [
+      page(6, [placed("6-left-2", "Abandonment", [100, 400, 800, 300]), placed("6-left-7", "Abate", [100, 750, 800, 300])]),
+      page(7, [placed("7-left-1", "Abduction", [100, 300, 800, 500])]),
+    ];
+    assert.deepStrictEqual(validateBatch(pages), []);
+  });
+
+  it("duplicate headwords name every entry filed under the key", () => {
+    const pages = [page(6, [placed("6-left-2", "Abet", [100, 400, 800, 300])]), page(7, [placed("7-left-1", "Abet.", [100, 300, 800, 300])])];
+    const [dup] = validateBatch(pages).filter((f) => f.reason.code === "duplicate_headword");
+    assert.deepStrictEqual(dup?.entry_ids, ["6-left-2", "7-left-1"]);
+  });
+
+  it("uncited transcript lines are pinned to the entry before them", () => {
+    const transcript: ColumnTranscript = {
+      page_number: 6,
+      column: "left",
+      column_index: 0,
+      lines: ["Abate", "کاستن", "To lessen", "or decrease", "Abatement", "کاهش"].map(line),
+    };
+    const pages: BatchPage[] = [{
+      ...page(6, [placed("6-left-0", "Abate", [100, 100, 800, 90]), placed("6-left-4", "Abatement", [100, 400, 800, 90])]),
+      columns: [{ transcript, cited: [{ entry_id: "6-left-0", line_indices: [0, 1] }, { entry_id: "6-left-4", line_indices: [4, 5] }] }],
+    }];
+    assert.deepStrictEqual(validateBatch(pages), [{
+      entry_ids: ["6-left-0"],
+      reason: { code: "uncited_lines", page_number: 6, column: "left", line_indices: [2, 3], text: "To lessen or decrease" },
+    }]);
+  });
+
+  it("regions overlapping within a column are flagged; touching ones and other columns are not", () => {
+    const pages = [page(6, [
+      placed("6-left-2", "Abate", [100, 400, 800, 300]),
+      placed("6-left-5", "Abatement", [100, 500, 800, 300]),
+      placed("6-left-9", "Abater", [100, 790, 800, 300]),
+      placed("6-right-1", "Abbroach", [100, 400, 800, 300], 1),
+    ])];
+    const overlaps = validateBatch(pages).filter((f) => f.reason.code === "overlapping_regions");
+    assert.deepStrictEqual(overlaps.map((f) => f.entry_ids), [["6-left-2", "6-left-5"]]);
+  });
+
+  it("headwords outside the page's section letter are flagged; continuations are not", () => {
+    const pages = [page(9, [placed("9-left-0", "", [100, 100, 800, 90]), placed("9-left-3", "Bail", [100, 300, 800, 90])])];
+    const [letter] = validateBatch(pages);
+    assert.deepStrictEqual(letter, { entry_ids: ["9-left-3"], reason: { code: "section_letter", expected: "A", actual: "B" } });
+  });
+
+  it("missing pages are pinned to the entries either side of the gap", () => {
+    const pages = [page(6, [placed("6-left-2", "Abate", [100, 400, 800, 300])]), page(9, [placed("9-left-1", "Abduction", [100, 300, 800, 300])])];
+    assert.deepStrictEqual(validateBatch(pages), [
+      { entry_ids: ["6-left-2", "9-left-1"], reason: { code: "missing_pages", page_numbers: [7, 8] } },
+    ]);
+  });
+
+  it("findings attach to their entries as review reasons", () => {
+    const pages = [
+      page(6, [placed("6-left-2", "Abide", [100, 400, 800, 300])]),
+      page(8, [placed("8-left-1", "Abet", [100, 300, 800, 300]), placed("8-left-6", "Abet", [100, 700, 800, 300])]),
+    ];
+    assert.deepStrictEqual(codes(pages).sort(), ["duplicate_headword", "missing_pages", "out_of_order"]);
+    const all = pages.flatMap((p) => p.entries);
+    attachFindings(all, validateBatch(pages));
+    assert.ok(all.every((e) => e.needs_review));
+    assert.deepStrictEqual(countReviewReasons(all), { out_of_order: 1, duplicate_headword: 2, missing_pages: 2 });
+  });
+});
+
+describe("cross-references (validation/cross-refs.ts)", () => {
+  /** An entry whose definition's cross-refs are extracted, unresolved. */
+  const defined = (id: string, headword: string, definition: string): Entry =>
+    entry(id, headword, { definition_en: definition, cross_refs: extractCrossRefs(definition) });
+
+  it("marked and headword-like spans are targets; usage examples are not", () => {
+    const refs = extractCrossRefs(
+      "To aid a crime <See Abettor; Accessory.> <Cf. Accomplice> <Abatement, plea of> < He abandoned his farm . > <An abatement of taxes>",
+    );
+    assert.deepStrictEqual(refs.map((r) => r.target), ["Abettor", "Accessory", "Accomplice", "Abatement, plea of"]);
+    assert.ok(refs.every((r) => r.entry_id === null));
+    assert.deepStrictEqual(extractCrossRefs(null), []);
+  });
+
+  it("targets resolve by collation against the index; the rest are findings", () => {
+    const abet = defined("6-left-2", "Abet", "To encourage a crime <See Abettor> <See Accomplice>");
+    const index = [abet, entry("6-left-9", "Abettor.")];
+    const findings = resolveCrossRefs([abet], index);
+    assert.deepStrictEqual(abet.cross_refs.map((r) => r.entry_id), ["6-left-9", null]);
+    assert.deepStrictEqual(findings, [{ entry_ids: ["6-left-2"], reason: { code: "unresolved_cross_ref", target: "Accomplice" } }]);
+  });
+
+  it("each target links where it stands, not inside a longer one", () => {
+    const abet = defined("6-left-2", "Abet", "Helps <See Abettor; Abet>");
+    resolveCrossRefs([abet], [abet, entry("6-left-9", "Abettor")]);
+    assert.equal(
+      renderCrossRefs(abet.definition_en ?? "", abet.cross_refs),
+      "Helps <See [Abettor](#6-left-9); [Abet](#6-left-2)>",
+    );
+  });
+
+  it("resolved targets render as links, the rest as printed", () => {
+    const abet = defined("6-left-2", "Abet", "To encourage <See Abettor> <See Accomplice> < He abetted it . >");
+    resolveCrossRefs([abet], [abet, entry("6-left-9", "Abettor")]);
+    assert.equal(
+      renderCrossRefs(abet.definition_en ?? "", abet.cross_refs),
+      "To encourage <See [Abettor](#6-left-9)> <See Accomplice> < He abetted it . >",
+    );
+    assert.equal(
+      renderCrossRefs(abet.definition_en ?? "", abet.cross_refs, ({ target, entry_id }) => `<a href="/e/${entry_id}">${target}</a>`),
+      'To encourage <See <a href="/e/6-left-9">Abettor</a>> <See Accomplice> < He abetted it . >',
+    );
+  });
+});